@@ -5,21 +5,29 @@ import type React from "react"
 import { useState, useRef, useCallback, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
-import { Camera, Upload, RotateCcw, ArrowLeft, Loader2 } from "lucide-react"
+import { Camera, Upload, RotateCcw, ArrowLeft, Loader2, AlertTriangle } from "lucide-react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
-
-interface ProcessedImage {
-  dataUrl: string
-  blob: Blob
-  width: number
-  height: number
-  size: number
-}
+import { CAPTURE_FRAMES, FRAME_INTERVAL_MS, getAccuracyMode, type AccuracyMode } from "@/lib/accuracy-mode"
+import {
+  IMAGE_ACCEPT,
+  MAX_IMAGE_FILE_SIZE,
+  QUALITY_HINTS,
+  assessImageQuality,
+  processImageForML,
+  validateImageFile,
+  type ProcessedImageResult,
+  type QualityIssue,
+} from "@/lib/processor"
 
 export default function CapturePage() {
   const [stream, setStream] = useState<MediaStream | null>(null)
-  const [capturedImage, setCapturedImage] = useState<ProcessedImage | null>(null)
+  const [capturedImage, setCapturedImage] = useState<ProcessedImageResult | null>(null)
+  // Further frames of the same shot, voted on with the photo in accuracy mode
+  const [extraFrames, setExtraFrames] = useState<string[]>([])
+  const [accuracyMode, setAccuracyMode] = useState<AccuracyMode>("fast")
+  // Problems found in the photo; the user can retake or continue anyway
+  const [qualityIssues, setQualityIssues] = useState<QualityIssue[]>([])
   const [facingMode, setFacingMode] = useState<"user" | "environment">("environment")
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -38,73 +46,20 @@ export default function CapturePage() {
     }
   }, [])
 
-  const preprocessImage = useCallback(async (imageData: string): Promise<ProcessedImage> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image()
-      img.crossOrigin = "anonymous"
-
-      img.onload = () => {
-        const canvas = document.createElement("canvas")
-        const ctx = canvas.getContext("2d")
-
-        if (!ctx) {
-          reject(new Error("ไม่สามารถสร้าง canvas context ได้"))
-          return
-        }
-
-        // Calculate new dimensions (max 640px on longest side)
-        const maxSize = 640
-        let { width, height } = img
-
-        if (width > height) {
-          if (width > maxSize) {
-            height = (height * maxSize) / width
-            width = maxSize
-          }
-        } else {
-          if (height > maxSize) {
-            width = (width * maxSize) / height
-            height = maxSize
-          }
-        }
-
-        // Set canvas size
-        canvas.width = width
-        canvas.height = height
-
-        // Draw and compress image
-        ctx.fillStyle = "#FFFFFF"
-        ctx.fillRect(0, 0, width, height)
-        ctx.drawImage(img, 0, 0, width, height)
-
-        // Convert to blob with compression
-        canvas.toBlob(
-          (blob) => {
-            if (!blob) {
-              reject(new Error("ไม่สามารถประมวลผลรูปภาพได้"))
-              return
-            }
-
-            const dataUrl = canvas.toDataURL("image/jpeg", 0.85)
-            resolve({
-              dataUrl,
-              blob,
-              width,
-              height,
-              size: blob.size,
-            })
-          },
-          "image/jpeg",
-          0.85,
-        )
-      }
-
-      img.onerror = () => {
-        reject(new Error("ไม่สามารถโหลดรูปภาพได้"))
-      }
+  useEffect(() => {
+    getAccuracyMode()
+      .then(setAccuracyMode)
+      .catch((error) => console.error("Failed to load accuracy mode:", error))
+  }, [])
 
-      img.src = imageData
-    })
+  // A failed check shouldn't stop the photo from being used
+  const checkQuality = useCallback(async (dataUrl: string) => {
+    try {
+      setQualityIssues(await assessImageQuality(dataUrl))
+    } catch (error) {
+      console.error("Quality check error:", error)
+      setQualityIssues([])
+    }
   }, [])
 
   const startCamera = useCallback(async () => {
@@ -186,19 +141,31 @@ export default function CapturePage() {
       canvas.width = video.videoWidth
       canvas.height = video.videoHeight
 
-      // Draw video frame to canvas
-      context.drawImage(video, 0, 0)
+      const grabFrame = () => {
+        // Draw video frame to canvas
+        context.drawImage(video, 0, 0)
+        return processImageForML(canvas.toDataURL("image/jpeg", 0.9))
+      }
 
-      // Get image data and preprocess
-      const imageData = canvas.toDataURL("image/jpeg", 0.9)
-      const processedImage = await preprocessImage(imageData)
+      const processedImage = await grabFrame()
 
       // Validate processed image
-      if (processedImage.size > 5 * 1024 * 1024) {
+      if (processedImage.size > MAX_IMAGE_FILE_SIZE) {
         throw new Error("รูปภาพมีขนาดใหญ่เกินไป (เกิน 5MB)")
       }
 
+      // Accuracy mode keeps a few more frames so a single blurry one can be outvoted
+      const frames: string[] = []
+      if (accuracyMode === "accurate") {
+        for (let i = 1; i < CAPTURE_FRAMES; i++) {
+          await new Promise((resolve) => setTimeout(resolve, FRAME_INTERVAL_MS))
+          frames.push((await grabFrame()).dataUrl)
+        }
+      }
+
+      await checkQuality(processedImage.dataUrl)
       setCapturedImage(processedImage)
+      setExtraFrames(frames)
       stopCamera()
     } catch (error) {
       console.error("Capture error:", error)
@@ -206,7 +173,7 @@ export default function CapturePage() {
     } finally {
       setIsProcessing(false)
     }
-  }, [preprocessImage, stopCamera])
+  }, [stopCamera, accuracyMode, checkQuality])
 
   const switchCamera = useCallback(() => {
     stopCamera()
@@ -222,38 +189,21 @@ export default function CapturePage() {
         setIsProcessing(true)
         setError(null)
 
-        // Validate file size (5MB limit)
-        if (file.size > 5 * 1024 * 1024) {
-          throw new Error("ไฟล์รูปภาพต้องมีขนาดไม่เกิน 5MB")
-        }
-
-        // Validate file type
-        if (!file.type.match(/^image\/(jpeg|jpg|png)$/)) {
-          throw new Error("รองรับเฉพาะไฟล์ JPG, JPEG และ PNG เท่านั้น")
+        // Validate file type and size (5MB limit)
+        const validation = validateImageFile(file)
+        if (!validation.valid) {
+          throw new Error(validation.error)
         }
 
-        // Read and preprocess file
-        const reader = new FileReader()
-        reader.onload = async (e) => {
-          try {
-            const imageData = e.target?.result as string
-            const processedImage = await preprocessImage(imageData)
-            setCapturedImage(processedImage)
-          } catch (error) {
-            setError(error instanceof Error ? error.message : "ไม่สามารถประมวลผลรูปภาพได้")
-          } finally {
-            setIsProcessing(false)
-          }
-        }
-
-        reader.onerror = () => {
-          setError("ไม่สามารถอ่านไฟล์ได้")
-          setIsProcessing(false)
-        }
-
-        reader.readAsDataURL(file)
+        // Upright per EXIF, resized and re-encoded without metadata
+        const processedImage = await processImageForML(file)
+        await checkQuality(processedImage.dataUrl)
+        setCapturedImage(processedImage)
+        setExtraFrames([])
       } catch (error) {
+        console.error("Upload error:", error)
         setError(error instanceof Error ? error.message : "เกิดข้อผิดพลาดในการอัปโหลด")
+      } finally {
         setIsProcessing(false)
       }
 
@@ -262,11 +212,13 @@ export default function CapturePage() {
         fileInputRef.current.value = ""
       }
     },
-    [preprocessImage],
+    [checkQuality],
   )
 
   const retakePhoto = useCallback(() => {
     setCapturedImage(null)
+    setExtraFrames([])
+    setQualityIssues([])
     setError(null)
     startCamera()
   }, [startCamera])
@@ -276,10 +228,15 @@ export default function CapturePage() {
 
     // Store image data for processing page
     localStorage.setItem("capturedImage", capturedImage.dataUrl)
+    if (extraFrames.length > 0) {
+      localStorage.setItem("capturedFrames", JSON.stringify(extraFrames))
+    } else {
+      localStorage.removeItem("capturedFrames")
+    }
 
     // Navigate to processing page
     router.push("/process")
-  }, [capturedImage, router])
+  }, [capturedImage, extraFrames, router])
 
   // Auto-start camera when switching modes
   useEffect(() => {
@@ -371,10 +328,27 @@ export default function CapturePage() {
           {capturedImage ? (
             <Card>
               <CardContent className="p-4 space-y-4">
+                {qualityIssues.length > 0 && (
+                  <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 space-y-1">
+                    {qualityIssues.map((issue) => (
+                      <div key={issue} className="text-sm">
+                        <p className="flex items-center gap-1 font-semibold">
+                          <AlertTriangle className="h-4 w-4" />
+                          {QUALITY_HINTS[issue].title}
+                        </p>
+                        <p>{QUALITY_HINTS[issue].hint}</p>
+                      </div>
+                    ))}
+                    <p className="text-xs">ถ่ายใหม่เพื่อผลลัพธ์ที่แม่นยำขึ้น หรือใช้รูปนี้ต่อก็ได้</p>
+                  </div>
+                )}
                 <div className="text-center space-y-2">
-                  <p className="text-muted-foreground">รูปภาพพร้อมสำหรับการประมวลผล</p>
+                  <p className="text-muted-foreground">
+                    {qualityIssues.length > 0 ? "รูปภาพอาจวิเคราะห์ได้ไม่แม่นยำ" : "รูปภาพพร้อมสำหรับการประมวลผล"}
+                  </p>
                   <p className="text-xs text-muted-foreground">
                     ขนาด: {capturedImage.width}×{capturedImage.height} • ไฟล์: {Math.round(capturedImage.size / 1024)}KB
+                    {extraFrames.length > 0 && ` • ${extraFrames.length + 1} เฟรม`}
                   </p>
                 </div>
                 <div className="flex gap-2">
@@ -392,6 +366,8 @@ export default function CapturePage() {
                         <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                         ประมวลผล...
                       </>
+                    ) : qualityIssues.length > 0 ? (
+                      "ใช้รูปนี้ต่อ"
                     ) : (
                       "ประมวลผล"
                     )}
@@ -440,7 +416,7 @@ export default function CapturePage() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/jpeg,image/jpg,image/png"
+                accept={IMAGE_ACCEPT}
                 onChange={handleFileUpload}
                 className="hidden"
               />
@@ -448,9 +424,10 @@ export default function CapturePage() {
               <Card>
                 <CardContent className="p-4">
                   <div className="text-sm text-muted-foreground space-y-1">
-                    <p>• รองรับไฟล์ JPG, JPEG, PNG</p>
+                    <p>• รองรับไฟล์ JPG, PNG, WebP (และ HEIC, AVIF หากเบราว์เซอร์รองรับ)</p>
                     <p>• ขนาดไฟล์ไม่เกิน 5MB</p>
                     <p>• รูปจะถูกปรับขนาดเป็น 640px สำหรับการประมวลผล</p>
+                    <p>• ข้อมูลตำแหน่ง (GPS) ในรูปจะถูกลบออก</p>
                     <p>• ถ่ายรูปให้ชัดเจนเพื่อผลลัพธ์ที่แม่นยำ</p>
                   </div>
                 </CardContent>
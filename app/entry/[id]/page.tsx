@@ -5,86 +5,143 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { ArrowLeft, Save, Trash2, Loader2 } from "lucide-react"
+import { ArrowLeft, Save, Trash2, Loader2, Search, RefreshCw } from "lucide-react"
 import Link from "next/link"
 import { useRouter, useParams } from "next/navigation"
 import {
-  getMealEntriesByDate,
+  getMealEntryById,
+  searchFoods,
   updateMealEntry,
   deleteMealEntry,
   getFoodById,
+  getEntryMealType,
+  getEntryPhoto,
   type MealEntry,
+  type MealType,
   type Food,
 } from "@/lib/db"
 import { calculateNutrition } from "@/lib/db"
+import { MealTypeSelect } from "@/components/meal-type-select"
+import { getTodayDateString } from "@/lib/date"
 import { useDatabase } from "@/components/database-provider"
 
+// Per-100 g values implied by an entry's own snapshot, used when its food no longer exists
+function foodFromSnapshot(entry: MealEntry): Food {
+  const per100g = entry.grams > 0 ? 100 / entry.grams : 0
+  return {
+    id: entry.food_id,
+    name_th: entry.food_name,
+    name_en: "",
+    category: "",
+    kcal_per_100g: Math.round(entry.kcal * per100g),
+    protein: Math.round(entry.protein * per100g * 10) / 10,
+    carb: Math.round(entry.carb * per100g * 10) / 10,
+    fat: Math.round(entry.fat * per100g * 10) / 10,
+    fiber: Math.round(entry.fiber * per100g * 10) / 10,
+    tags: [],
+  }
+}
+
+// The logged snapshot stands until the food or the amount is edited, even if the catalog has changed since
+function keepsSnapshot(entry: MealEntry, food: Food, grams: number) {
+  return food.id === entry.food_id && grams === entry.grams
+}
+
 export default function EditEntryPage() {
   const [entry, setEntry] = useState<MealEntry | null>(null)
   const [food, setFood] = useState<Food | null>(null)
+  const [foodMissing, setFoodMissing] = useState(false)
   const [grams, setGrams] = useState("")
   const [customTime, setCustomTime] = useState("")
   const [customDate, setCustomDate] = useState("")
+  const [mealType, setMealType] = useState<MealType>("snack")
+  const [isChangingFood, setIsChangingFood] = useState(false)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [searchResults, setSearchResults] = useState<Food[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null)
 
   const router = useRouter()
   const params = useParams()
-  const entryId = Number.parseInt(params.id as string)
+  const entryId = Number.parseInt(params.id as string, 10)
   const { isReady } = useDatabase()
 
   useEffect(() => {
-    if (isReady && entryId) {
-      loadEntry()
-    }
-  }, [isReady, entryId])
+    async function loadEntry() {
+      try {
+        setIsLoading(true)
+        setError(null)
 
-  const loadEntry = async () => {
-    try {
-      setIsLoading(true)
-      setError(null)
-
-      // Get all entries for today and find the specific one
-      // This is a workaround since we don't have a direct getEntryById function
-      const today = new Date().toISOString().split("T")[0]
-      const entries = await getMealEntriesByDate(today)
-      const foundEntry = entries.find((e) => e.id === entryId)
-
-      if (!foundEntry) {
-        // Try yesterday and day before if not found today
-        const yesterday = new Date()
-        yesterday.setDate(yesterday.getDate() - 1)
-        const yesterdayEntries = await getMealEntriesByDate(yesterday.toISOString().split("T")[0])
-        const foundYesterday = yesterdayEntries.find((e) => e.id === entryId)
-
-        if (foundYesterday) {
-          setEntry(foundYesterday)
-          setGrams(foundYesterday.grams.toString())
-          setCustomTime(foundYesterday.time)
-          setCustomDate(foundYesterday.date)
-        } else {
-          throw new Error("ไม่พบรายการที่ต้องการแก้ไข")
+        const foundEntry = Number.isInteger(entryId) ? await getMealEntryById(entryId) : undefined
+        if (!foundEntry) {
+          setEntry(null)
+          return
         }
-      } else {
+
         setEntry(foundEntry)
         setGrams(foundEntry.grams.toString())
         setCustomTime(foundEntry.time)
         setCustomDate(foundEntry.date)
-      }
+        setMealType(getEntryMealType(foundEntry))
 
-      // Load food details
-      if (foundEntry?.food_id) {
+        // The food may have been deleted (custom food/recipe) since the entry was logged
         const foodData = await getFoodById(foundEntry.food_id)
-        setFood(foodData || null)
+        setFood(foodData || foodFromSnapshot(foundEntry))
+        setFoodMissing(!foodData)
+      } catch (error) {
+        console.error("Failed to load entry:", error)
+        setError("ไม่สามารถโหลดข้อมูลได้")
+      } finally {
+        setIsLoading(false)
       }
+    }
+
+    if (isReady) {
+      loadEntry()
+    }
+  }, [isReady, entryId])
+
+  // Photo the entry was logged from, if any
+  useEffect(() => {
+    if (!isReady || !Number.isInteger(entryId)) return
+
+    let url: string | null = null
+    getEntryPhoto(entryId)
+      .then((blob) => {
+        if (!blob) return
+        url = URL.createObjectURL(blob)
+        setPhotoUrl(url)
+      })
+      .catch((error) => console.error("Failed to load photo:", error))
+
+    return () => {
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [isReady, entryId])
+
+  const handleSearch = useCallback(async (query: string) => {
+    if (!query.trim()) {
+      setSearchResults([])
+      return
+    }
+
+    try {
+      const foods = await searchFoods(query, 10)
+      setSearchResults(foods)
     } catch (error) {
-      console.error("Failed to load entry:", error)
-      setError(error instanceof Error ? error.message : "ไม่สามารถโหลดข้อมูลได้")
-    } finally {
-      setIsLoading(false)
+      console.error("Search error:", error)
     }
-  }
+  }, [])
+
+  const handleFoodSelect = useCallback((selected: Food) => {
+    setFood(selected)
+    setFoodMissing(false)
+    setIsChangingFood(false)
+    setSearchQuery("")
+    setSearchResults([])
+  }, [])
 
   const handleSave = useCallback(async () => {
     if (!entry || !food) return
@@ -99,19 +156,20 @@ export default function EditEntryPage() {
       setIsSaving(true)
       setError(null)
 
-      // Calculate new nutrition values
-      const nutrition = calculateNutrition(food, gramsNum)
+      const updates: Partial<MealEntry> = keepsSnapshot(entry, food, gramsNum)
+        ? {}
+        : {
+            food_id: food.id,
+            food_name: food.name_th,
+            grams: gramsNum,
+            ...calculateNutrition(food, gramsNum),
+          }
 
-      // Update entry
       await updateMealEntry(entry.id!, {
-        grams: gramsNum,
-        kcal: nutrition.kcal,
-        protein: nutrition.protein,
-        carb: nutrition.carb,
-        fat: nutrition.fat,
-        fiber: nutrition.fiber,
+        ...updates,
         date: customDate,
         time: customTime,
+        meal_type: mealType,
       })
 
       router.push("/history?updated=true")
@@ -121,7 +179,7 @@ export default function EditEntryPage() {
     } finally {
       setIsSaving(false)
     }
-  }, [entry, food, grams, customDate, customTime, router])
+  }, [entry, food, grams, customDate, customTime, mealType, router])
 
   const handleDelete = useCallback(async () => {
     if (!entry || !confirm("ต้องการลบรายการนี้หรือไม่?")) return
@@ -136,7 +194,13 @@ export default function EditEntryPage() {
   }, [entry, router])
 
   // Calculate nutrition preview
-  const nutritionPreview = food && grams ? calculateNutrition(food, Number.parseFloat(grams) || 0) : null
+  const gramsPreview = Number.parseFloat(grams) || 0
+  const nutritionPreview =
+    entry && food && grams
+      ? keepsSnapshot(entry, food, gramsPreview)
+        ? entry
+        : calculateNutrition(food, gramsPreview)
+      : null
 
   if (isLoading) {
     return (
@@ -151,13 +215,21 @@ export default function EditEntryPage() {
 
   if (!entry || !food) {
     return (
-      <main className="min-h-screen bg-background flex items-center justify-center">
-        <div className="text-center space-y-4">
-          <p className="text-destructive">ไม่พบรายการที่ต้องการแก้ไข</p>
-          <Link href="/history">
-            <Button>กลับไปประวัติ</Button>
-          </Link>
-        </div>
+      <main className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6">
+            <div className="text-center space-y-4">
+              <div className="text-6xl">🔍</div>
+              <div>
+                <h3 className="text-lg font-semibold">ไม่พบรายการที่ต้องการแก้ไข</h3>
+                <p className="text-muted-foreground">{error || "รายการนี้อาจถูกลบไปแล้ว หรือลิงก์ไม่ถูกต้อง"}</p>
+              </div>
+              <Link href="/history">
+                <Button>กลับไปประวัติ</Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
       </main>
     )
   }
@@ -189,18 +261,83 @@ export default function EditEntryPage() {
             </Card>
           )}
 
+          {/* Photo */}
+          {photoUrl && (
+            <Card>
+              <CardContent className="p-4">
+                <img src={photoUrl} alt={entry.food_name} className="w-full h-48 object-cover rounded-lg" />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Food Details */}
           <Card>
             <CardHeader>
               <CardTitle className="text-lg">รายละเอียดอาหาร</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div>
-                <h3 className="font-semibold">{food.name_th}</h3>
-                <p className="text-sm text-muted-foreground">{food.name_en}</p>
-                <p className="text-sm text-muted-foreground">หมวด: {food.category}</p>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h3 className="font-semibold">{food.name_th}</h3>
+                  {food.name_en && <p className="text-sm text-muted-foreground">{food.name_en}</p>}
+                  {food.category && <p className="text-sm text-muted-foreground">หมวด: {food.category}</p>}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-transparent shrink-0"
+                  onClick={() => setIsChangingFood((prev) => !prev)}
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  เปลี่ยนอาหาร
+                </Button>
               </div>
 
+              {foodMissing && (
+                <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded">
+                  อาหารนี้ถูกลบออกจากฐานข้อมูลแล้ว ค่าโภชนาการคำนวณจากข้อมูลที่บันทึกไว้เดิม
+                </p>
+              )}
+
+              {/* Food Switcher */}
+              {isChangingFood && (
+                <div className="space-y-2">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      className="pl-9"
+                      placeholder="ค้นหาอาหารใหม่..."
+                      value={searchQuery}
+                      onChange={(e) => {
+                        setSearchQuery(e.target.value)
+                        handleSearch(e.target.value)
+                      }}
+                      autoFocus
+                    />
+                  </div>
+
+                  {searchResults.length > 0 && (
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {searchResults.map((result) => (
+                        <Button
+                          key={result.id}
+                          variant="outline"
+                          className="w-full justify-start h-auto p-3 bg-transparent"
+                          onClick={() => handleFoodSelect(result)}
+                        >
+                          <div className="text-left">
+                            <div className="font-medium">{result.name_th}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {result.kcal_per_100g} kcal/100g • {result.category}
+                            </div>
+                          </div>
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
                   <div className="font-medium">แคลอรี่</div>
@@ -233,6 +370,12 @@ export default function EditEntryPage() {
                     min="1"
                     max="2000"
                   />
+                  {entry.portion_estimate && (
+                    <p className="text-xs text-muted-foreground">
+                      ตอนบันทึกประมาณไว้ {entry.portion_estimate.min}–{entry.portion_estimate.max} กรัม (
+                      {entry.portion_estimate.method === "reference" ? "จากวัตถุอ้างอิงในรูป" : "จากขนาดทั่วไป"})
+                    </p>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
@@ -243,7 +386,7 @@ export default function EditEntryPage() {
                       type="date"
                       value={customDate}
                       onChange={(e) => setCustomDate(e.target.value)}
-                      max={new Date().toISOString().split("T")[0]}
+                      max={getTodayDateString()}
                     />
                   </div>
                   <div className="space-y-2">
@@ -251,6 +394,8 @@ export default function EditEntryPage() {
                     <Input id="time" type="time" value={customTime} onChange={(e) => setCustomTime(e.target.value)} />
                   </div>
                 </div>
+
+                <MealTypeSelect value={mealType} onChange={setMealType} />
               </div>
 
               {/* Nutrition Preview */}
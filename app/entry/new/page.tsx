@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -8,27 +8,36 @@ import { Label } from "@/components/ui/label"
 import { ArrowLeft, Search, Plus, Loader2 } from "lucide-react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
-import { searchFoods, addMealEntry, type Food } from "@/lib/db"
+import { searchFoods, addMealEntry, getMealTypeBoundaries, type Food, type MealType } from "@/lib/db"
 import { calculateNutrition } from "@/lib/db"
+import { DEFAULT_MEAL_TYPE_BOUNDARIES, getMealTypeForTime, type MealTypeBoundaries } from "@/lib/meal-type"
+import { MealTypeSelect } from "@/components/meal-type-select"
+import { getTodayDateString, toLocalTimeString } from "@/lib/date"
 
 export default function NewEntryPage() {
   const [searchQuery, setSearchQuery] = useState("")
   const [searchResults, setSearchResults] = useState<Food[]>([])
   const [selectedFood, setSelectedFood] = useState<Food | null>(null)
   const [grams, setGrams] = useState("100")
-  const [customTime, setCustomTime] = useState(() => {
-    const now = new Date()
-    return now.toTimeString().slice(0, 5) // HH:MM format
-  })
-  const [customDate, setCustomDate] = useState(() => {
-    return new Date().toISOString().split("T")[0] // YYYY-MM-DD format
-  })
+  const [customTime, setCustomTime] = useState(() => toLocalTimeString()) // HH:MM format
+  const [customDate, setCustomDate] = useState(getTodayDateString) // YYYY-MM-DD format
+  const [mealTypeBoundaries, setMealTypeBoundaries] = useState<MealTypeBoundaries>(DEFAULT_MEAL_TYPE_BOUNDARIES)
+  const [mealTypeOverride, setMealTypeOverride] = useState<MealType | null>(null)
   const [isSearching, setIsSearching] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
   const router = useRouter()
 
+  useEffect(() => {
+    getMealTypeBoundaries()
+      .then(setMealTypeBoundaries)
+      .catch((error) => console.error("Failed to load meal type boundaries:", error))
+  }, [])
+
+  // Follows the chosen time until the user picks a meal type explicitly
+  const mealType = mealTypeOverride ?? getMealTypeForTime(customTime, mealTypeBoundaries)
+
   const handleSearch = useCallback(async (query: string) => {
     if (!query.trim()) {
       setSearchResults([])
@@ -69,7 +78,7 @@ export default function NewEntryPage() {
       setIsSaving(true)
       setError(null)
 
-      await addMealEntry(selectedFood, gramsNum, customDate, customTime)
+      await addMealEntry(selectedFood, gramsNum, { date: customDate, time: customTime, mealType })
       router.push("/history?saved=true")
     } catch (error) {
       console.error("Save error:", error)
@@ -77,7 +86,7 @@ export default function NewEntryPage() {
     } finally {
       setIsSaving(false)
     }
-  }, [selectedFood, grams, customDate, customTime, router])
+  }, [selectedFood, grams, customDate, customTime, mealType, router])
 
   // Calculate nutrition preview
   const nutritionPreview =
@@ -143,7 +152,15 @@ export default function NewEntryPage() {
                       onClick={() => handleFoodSelect(food)}
                     >
                       <div>
-                        <div className="font-medium">{food.name_th}</div>
+                        <div className="font-medium flex items-center gap-2">
+                          {food.name_th}
+                          {food.source === "user" && (
+                            <span className="text-xs font-normal bg-secondary px-2 py-0.5 rounded">ของฉัน</span>
+                          )}
+                          {food.source === "recipe" && (
+                            <span className="text-xs font-normal bg-secondary px-2 py-0.5 rounded">สูตรของฉัน</span>
+                          )}
+                        </div>
                         <div className="text-xs text-muted-foreground">
                           {food.kcal_per_100g} kcal/100g • {food.category}
                         </div>
@@ -156,9 +173,16 @@ export default function NewEntryPage() {
               {searchQuery && searchResults.length === 0 && !isSearching && (
                 <div className="text-center py-4 text-muted-foreground">
                   <p>ไม่พบอาหารที่ค้นหา</p>
-                  <p className="text-sm">ลองใช้คำค้นหาอื่น</p>
+                  <p className="text-sm">ลองใช้คำค้นหาอื่น หรือเพิ่มอาหารของคุณเอง</p>
                 </div>
               )}
+
+              <Link href="/foods/new">
+                <Button variant="outline" className="w-full bg-transparent">
+                  <Plus className="h-4 w-4 mr-2" />
+                  สร้างอาหารใหม่
+                </Button>
+              </Link>
             </CardContent>
           </Card>
 
@@ -217,7 +241,7 @@ export default function NewEntryPage() {
                         type="date"
                         value={customDate}
                         onChange={(e) => setCustomDate(e.target.value)}
-                        max={new Date().toISOString().split("T")[0]}
+                        max={getTodayDateString()}
                       />
                     </div>
                     <div className="space-y-2">
@@ -225,6 +249,8 @@ export default function NewEntryPage() {
                       <Input id="time" type="time" value={customTime} onChange={(e) => setCustomTime(e.target.value)} />
                     </div>
                   </div>
+
+                  <MealTypeSelect value={mealType} onChange={setMealTypeOverride} />
                 </div>
 
                 {/* Nutrition Preview */}
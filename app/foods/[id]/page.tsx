@@ -0,0 +1,133 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, Trash2, Loader2 } from "lucide-react"
+import Link from "next/link"
+import { useRouter, useParams } from "next/navigation"
+import { getFoodById, updateCustomFood, deleteCustomFood, type Food } from "@/lib/db"
+import type { CustomFoodInput } from "@/lib/schemas"
+import { FoodForm } from "@/components/food-form"
+import { useDatabase } from "@/components/database-provider"
+
+export default function EditFoodPage() {
+  const [food, setFood] = useState<Food | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const router = useRouter()
+  const params = useParams()
+  const foodId = decodeURIComponent(params.id as string)
+  const { isReady } = useDatabase()
+
+  useEffect(() => {
+    async function loadFood() {
+      try {
+        setIsLoading(true)
+        const foodData = await getFoodById(foodId)
+        // Seed foods are read-only
+        setFood(foodData && foodData.source === "user" ? foodData : null)
+      } catch (error) {
+        console.error("Failed to load food:", error)
+        setError("ไม่สามารถโหลดข้อมูลได้")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (isReady) {
+      loadFood()
+    }
+  }, [isReady, foodId])
+
+  const handleSubmit = useCallback(
+    async (data: CustomFoodInput) => {
+      try {
+        setError(null)
+        await updateCustomFood(foodId, data)
+        router.push("/foods?updated=true")
+      } catch (error) {
+        console.error("Save error:", error)
+        setError(error instanceof Error ? error.message : "ไม่สามารถบันทึกอาหารได้")
+      }
+    },
+    [foodId, router],
+  )
+
+  const handleDelete = useCallback(async () => {
+    if (!food || !confirm(`ต้องการลบ "${food.name_th}" หรือไม่? รายการที่บันทึกไว้แล้วจะไม่ถูกลบ`)) return
+
+    try {
+      await deleteCustomFood(food.id)
+      router.push("/foods?deleted=true")
+    } catch (error) {
+      console.error("Delete error:", error)
+      setError(error instanceof Error ? error.message : "ไม่สามารถลบอาหารได้")
+    }
+  }, [food, router])
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p>กำลังโหลด...</p>
+        </div>
+      </main>
+    )
+  }
+
+  if (!food) {
+    return (
+      <main className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <p className="text-destructive">{error || "ไม่พบอาหารที่ต้องการแก้ไข"}</p>
+          <Link href="/foods">
+            <Button>กลับไปอาหารของฉัน</Button>
+          </Link>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <Link href="/foods">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              กลับ
+            </Button>
+          </Link>
+          <h1 className="text-lg font-semibold">แก้ไขอาหาร</h1>
+          <Button variant="ghost" size="sm" onClick={handleDelete} className="text-destructive hover:text-destructive">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Error Display */}
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="p-4">
+                <p className="text-destructive text-sm">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">ข้อมูลอาหาร</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <FoodForm initialFood={food} submitLabel="บันทึกการแก้ไข" onSubmit={handleSubmit} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { useState, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft } from "lucide-react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { createCustomFood } from "@/lib/db"
+import type { CustomFoodInput } from "@/lib/schemas"
+import { FoodForm } from "@/components/food-form"
+
+export default function NewFoodPage() {
+  const [error, setError] = useState<string | null>(null)
+
+  const router = useRouter()
+
+  const handleSubmit = useCallback(
+    async (data: CustomFoodInput) => {
+      try {
+        setError(null)
+        await createCustomFood(data)
+        router.push("/foods?saved=true")
+      } catch (error) {
+        console.error("Save error:", error)
+        setError("ไม่สามารถบันทึกอาหารได้")
+      }
+    },
+    [router],
+  )
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <Link href="/foods">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              กลับ
+            </Button>
+          </Link>
+          <h1 className="text-lg font-semibold">เพิ่มอาหาร</h1>
+          <div className="w-16"></div>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Error Display */}
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="p-4">
+                <p className="text-destructive text-sm">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">ข้อมูลอาหาร</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <FoodForm onSubmit={handleSubmit} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  )
+}
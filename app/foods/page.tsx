@@ -0,0 +1,145 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { ArrowLeft, Plus, Edit, Trash2 } from "lucide-react"
+import Link from "next/link"
+import { getCustomFoods, deleteCustomFood, type Food } from "@/lib/db"
+import { useDatabase } from "@/components/database-provider"
+
+export default function CustomFoodsPage() {
+  const [foods, setFoods] = useState<Food[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const { isReady } = useDatabase()
+
+  useEffect(() => {
+    if (isReady) {
+      loadFoods()
+    }
+  }, [isReady])
+
+  const loadFoods = async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      setFoods(await getCustomFoods())
+    } catch (error) {
+      console.error("Failed to load custom foods:", error)
+      setError("ไม่สามารถโหลดข้อมูลได้")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDelete = async (food: Food) => {
+    if (!confirm(`ต้องการลบ "${food.name_th}" หรือไม่? รายการที่บันทึกไว้แล้วจะไม่ถูกลบ`)) return
+
+    try {
+      await deleteCustomFood(food.id)
+      await loadFoods()
+    } catch (error) {
+      console.error("Failed to delete custom food:", error)
+      setError(error instanceof Error ? error.message : "ไม่สามารถลบอาหารได้")
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>กำลังโหลด...</p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <Link href="/settings">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              กลับ
+            </Button>
+          </Link>
+          <h1 className="text-lg font-semibold">อาหารของฉัน</h1>
+          <Link href="/foods/new">
+            <Button variant="ghost" size="sm">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </Link>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Error Display */}
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="p-4">
+                <p className="text-destructive text-sm">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {foods.length > 0 ? (
+            <div className="space-y-3">
+              {foods.map((food) => (
+                <Card key={food.id}>
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <h3 className="font-semibold">{food.name_th}</h3>
+                        {food.name_en && <p className="text-sm text-muted-foreground">{food.name_en}</p>}
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {food.kcal_per_100g} kcal/100g • {food.category}
+                        </div>
+                      </div>
+
+                      <div className="flex gap-1 ml-2">
+                        <Link href={`/foods/${food.id}`}>
+                          <Button variant="ghost" size="sm">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(food)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="p-6">
+                <div className="text-center space-y-4">
+                  <div>
+                    <h3 className="text-lg font-semibold">ยังไม่มีอาหารของคุณ</h3>
+                    <p className="text-muted-foreground">เพิ่มอาหารที่ไม่มีในฐานข้อมูลเพื่อใช้บันทึกมื้ออาหาร</p>
+                  </div>
+                  <Link href="/foods/new">
+                    <Button>
+                      <Plus className="h-4 w-4 mr-2" />
+                      เพิ่มอาหาร
+                    </Button>
+                  </Link>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
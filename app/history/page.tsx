@@ -3,13 +3,29 @@
 import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { ArrowLeft, Plus, Edit, Trash2, ChevronLeft, ChevronRight } from "lucide-react"
+import { ArrowLeft, Plus, Edit, Trash2, ChevronLeft, ChevronRight, TrendingUp } from "lucide-react"
 import Link from "next/link"
-import { getDailySummary, deleteMealEntry, type MealEntry } from "@/lib/db"
+import { useSearchParams } from "next/navigation"
+import {
+  getDailySummary,
+  deleteMealEntry,
+  getEntryMealType,
+  type DailySummary,
+  type MealEntry,
+} from "@/lib/db"
+import { MEAL_TYPES } from "@/lib/meal-type"
+import { addDaysToDateString, getTodayDateString, isValidDateString, parseLocalDate } from "@/lib/date"
 import { useDatabase } from "@/components/database-provider"
+import { CsvExport } from "@/components/csv-export"
 
 export default function HistoryPage() {
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split("T")[0])
+  const searchParams = useSearchParams()
+  // ?date=YYYY-MM-DD deep-links to a specific day (e.g. from /trends)
+  const [selectedDate, setSelectedDate] = useState(() => {
+    const dateParam = searchParams.get("date")
+    const today = getTodayDateString()
+    return dateParam && isValidDateString(dateParam) && dateParam <= today ? dateParam : today
+  })
   const [entries, setEntries] = useState<MealEntry[]>([])
   const [dailySummary, setDailySummary] = useState({
     total_kcal: 0,
@@ -18,6 +34,7 @@ export default function HistoryPage() {
     total_fat: 0,
     meal_count: 0,
   })
+  const [byMealType, setByMealType] = useState<DailySummary["by_meal_type"] | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -43,6 +60,7 @@ export default function HistoryPage() {
         total_fat: summary.total_fat,
         meal_count: summary.meal_count,
       })
+      setByMealType(summary.by_meal_type)
     } catch (error) {
       console.error("Failed to load day data:", error)
       setError("ไม่สามารถโหลดข้อมูลได้")
@@ -64,23 +82,18 @@ export default function HistoryPage() {
   }
 
   const changeDate = (days: number) => {
-    const currentDate = new Date(selectedDate)
-    currentDate.setDate(currentDate.getDate() + days)
-    setSelectedDate(currentDate.toISOString().split("T")[0])
+    setSelectedDate(addDaysToDateString(selectedDate, days))
   }
 
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString)
-    const today = new Date()
-    const yesterday = new Date(today)
-    yesterday.setDate(yesterday.getDate() - 1)
+    const today = getTodayDateString()
 
-    if (dateString === today.toISOString().split("T")[0]) {
+    if (dateString === today) {
       return "วันนี้"
-    } else if (dateString === yesterday.toISOString().split("T")[0]) {
+    } else if (dateString === addDaysToDateString(today, -1)) {
       return "เมื่อวาน"
     } else {
-      return date.toLocaleDateString("th-TH", {
+      return parseLocalDate(dateString).toLocaleDateString("th-TH", {
         weekday: "long",
         year: "numeric",
         month: "long",
@@ -116,11 +129,18 @@ export default function HistoryPage() {
             </Button>
           </Link>
           <h1 className="text-lg font-semibold">ประวัติการบันทึก</h1>
-          <Link href="/entry/new">
-            <Button variant="ghost" size="sm">
-              <Plus className="h-4 w-4" />
-            </Button>
-          </Link>
+          <div className="flex">
+            <Link href="/trends">
+              <Button variant="ghost" size="sm">
+                <TrendingUp className="h-4 w-4" />
+              </Button>
+            </Link>
+            <Link href="/entry/new">
+              <Button variant="ghost" size="sm">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </Link>
+          </div>
         </div>
 
         <div className="p-4 space-y-4">
@@ -135,7 +155,7 @@ export default function HistoryPage() {
                 <div className="text-center">
                   <div className="font-semibold">{formatDate(selectedDate)}</div>
                   <div className="text-sm text-muted-foreground">
-                    {new Date(selectedDate).toLocaleDateString("th-TH")}
+                    {parseLocalDate(selectedDate).toLocaleDateString("th-TH")}
                   </div>
                 </div>
 
@@ -143,7 +163,7 @@ export default function HistoryPage() {
                   variant="ghost"
                   size="sm"
                   onClick={() => changeDate(1)}
-                  disabled={selectedDate >= new Date().toISOString().split("T")[0]}
+                  disabled={selectedDate >= getTodayDateString()}
                 >
                   <ChevronRight className="h-4 w-4" />
                 </Button>
@@ -174,7 +194,7 @@ export default function HistoryPage() {
                   </div>
                   <div className="text-center">
                     <div className="text-2xl font-bold text-blue-600">{dailySummary.meal_count}</div>
-                    <div className="text-sm text-muted-foreground">มื้อ</div>
+                    <div className="text-sm text-muted-foreground">รายการ</div>
                   </div>
                 </div>
 
@@ -196,62 +216,75 @@ export default function HistoryPage() {
             </Card>
           )}
 
-          {/* Meal Entries */}
+          {/* Meal Entries, grouped by meal type */}
           {entries.length > 0 ? (
-            <div className="space-y-3">
-              {entries.map((entry) => (
-                <Card key={entry.id}>
-                  <CardContent className="p-4">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-2">
-                          <h3 className="font-semibold">{entry.food_name}</h3>
-                          <span className="text-xs text-muted-foreground bg-secondary px-2 py-1 rounded">
-                            {formatTime(entry.time)}
-                          </span>
-                        </div>
+            <div className="space-y-6">
+              {MEAL_TYPES.map(({ value, label }) => {
+                const mealEntries = entries.filter((entry) => getEntryMealType(entry) === value)
+                if (mealEntries.length === 0) return null
 
-                        <div className="text-sm text-muted-foreground mb-2">{entry.grams} กรัม</div>
+                return (
+                  <div key={value} className="space-y-3">
+                    <div className="flex items-center justify-between px-1">
+                      <h2 className="font-semibold">{label}</h2>
+                      <span className="text-sm text-muted-foreground">{byMealType?.[value].total_kcal ?? 0} kcal</span>
+                    </div>
+                    {mealEntries.map((entry) => (
+                      <Card key={entry.id}>
+                        <CardContent className="p-4">
+                          <div className="flex items-start justify-between">
+                            <div className="flex-1">
+                              <div className="flex items-center gap-2 mb-2">
+                                <h3 className="font-semibold">{entry.food_name}</h3>
+                                <span className="text-xs text-muted-foreground bg-secondary px-2 py-1 rounded">
+                                  {formatTime(entry.time)}
+                                </span>
+                              </div>
 
-                        <div className="grid grid-cols-4 gap-2 text-xs">
-                          <div>
-                            <div className="font-medium text-emerald-600">{entry.kcal}</div>
-                            <div className="text-muted-foreground">kcal</div>
-                          </div>
-                          <div>
-                            <div className="font-medium text-orange-600">{entry.protein}g</div>
-                            <div className="text-muted-foreground">โปรตีน</div>
-                          </div>
-                          <div>
-                            <div className="font-medium text-yellow-600">{entry.carb}g</div>
-                            <div className="text-muted-foreground">คาร์บ</div>
-                          </div>
-                          <div>
-                            <div className="font-medium text-red-600">{entry.fat}g</div>
-                            <div className="text-muted-foreground">ไขมัน</div>
-                          </div>
-                        </div>
-                      </div>
+                              <div className="text-sm text-muted-foreground mb-2">{entry.grams} กรัม</div>
 
-                      <div className="flex gap-1 ml-2">
-                        <Link href={`/entry/${entry.id}`}>
-                          <Button variant="ghost" size="sm">
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                        </Link>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => entry.id && handleDeleteEntry(entry.id)}
-                          className="text-destructive hover:text-destructive"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                              <div className="grid grid-cols-4 gap-2 text-xs">
+                                <div>
+                                  <div className="font-medium text-emerald-600">{entry.kcal}</div>
+                                  <div className="text-muted-foreground">kcal</div>
+                                </div>
+                                <div>
+                                  <div className="font-medium text-orange-600">{entry.protein}g</div>
+                                  <div className="text-muted-foreground">โปรตีน</div>
+                                </div>
+                                <div>
+                                  <div className="font-medium text-yellow-600">{entry.carb}g</div>
+                                  <div className="text-muted-foreground">คาร์บ</div>
+                                </div>
+                                <div>
+                                  <div className="font-medium text-red-600">{entry.fat}g</div>
+                                  <div className="text-muted-foreground">ไขมัน</div>
+                                </div>
+                              </div>
+                            </div>
+
+                            <div className="flex gap-1 ml-2">
+                              <Link href={`/entry/${entry.id}`}>
+                                <Button variant="ghost" size="sm">
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              </Link>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => entry.id && handleDeleteEntry(entry.id)}
+                                className="text-destructive hover:text-destructive"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )
+              })}
             </div>
           ) : (
             <Card>
@@ -274,6 +307,20 @@ export default function HistoryPage() {
               </CardContent>
             </Card>
           )}
+
+          {/* CSV Export */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">ส่งออก CSV</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CsvExport
+                key={selectedDate}
+                defaultStart={addDaysToDateString(selectedDate, -6)}
+                defaultEnd={selectedDate}
+              />
+            </CardContent>
+          </Card>
         </div>
       </div>
     </main>
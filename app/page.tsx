@@ -14,26 +14,24 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { useEffect, useState } from "react";
-import { getDailySummary, getUserProfile, type UserProfile } from "@/lib/db";
+import {
+  getDailySummary,
+  getUserProfile,
+  getEntryMealType,
+  type DailySummary,
+  type UserProfile,
+} from "@/lib/db";
+import { getMealTypeLabel } from "@/lib/meal-type";
+import { getTodayDateString } from "@/lib/date";
 import { format } from "date-fns";
 import { th } from "date-fns/locale";
 
-interface DailySummary {
-  total_kcal: number;
-  total_protein: number;
-  total_carb: number;
-  total_fat: number;
-  total_fiber: number;
-  meal_count: number;
-  entries: any[];
-}
-
 export default function HomePage() {
   const [summary, setSummary] = useState<DailySummary | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const today = format(new Date(), "yyyy-MM-dd");
+  const today = getTodayDateString();
   const todayThai = format(new Date(), "d MMMM yyyy", { locale: th });
 
   useEffect(() => {
@@ -169,7 +167,7 @@ export default function HomePage() {
                 มื้ออาหารวันนี้
                 {summary && summary.meal_count > 0 && (
                   <span className="text-sm font-normal text-muted-foreground">
-                    ({summary.meal_count} มื้อ)
+                    ({summary.meal_count} รายการ)
                   </span>
                 )}
               </CardTitle>
@@ -189,6 +187,7 @@ export default function HomePage() {
                       <div>
                         <div className="font-medium">{entry.food_name}</div>
                         <div className="text-sm text-muted-foreground">
+                          {getMealTypeLabel(getEntryMealType(entry))} •{" "}
                           {entry.time} • {entry.grams}g
                         </div>
                       </div>
@@ -268,6 +267,12 @@ export default function HomePage() {
                   <span className="text-xs">ประวัติ</span>
                 </Button>
               </Link>
+              <Link href="/trends">
+                <Button variant="ghost" size="sm" className="flex-col gap-1">
+                  <TrendingUp className="h-4 w-4" />
+                  <span className="text-xs">แนวโน้ม</span>
+                </Button>
+              </Link>
               <Link href="/settings">
                 <Button variant="ghost" size="sm" className="flex-col gap-1">
                   <Settings className="h-4 w-4" />
@@ -1,27 +1,122 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { ArrowLeft, Loader2, Search, Plus } from "lucide-react"
+import { ArrowLeft, Loader2, Search, Plus, ImageOff, LayoutGrid, ScanSearch, Trash2, Ruler, HelpCircle } from "lucide-react"
 import Link from "next/link"
 import { useRouter, useSearchParams } from "next/navigation"
-import { classifyFood, type ClassificationResult } from "@/lib/session"
-import { extractImageData } from "@/lib/processor"
-import { searchFoods, getFoodById, addMealEntry, type Food } from "@/lib/db"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  classifyFood,
+  classifyFrames,
+  classifyRegions,
+  detectFoodRegions,
+  hasRegionDetector,
+  type AccuracyMode,
+  type Certainty,
+  type ClassificationResult,
+  type FoodClassification,
+  type InferenceProgress,
+  type Region,
+} from "@/lib/session"
+import { addPersonalExample } from "@/lib/personalization"
+import { getMLStatus } from "@/lib/ml-capability"
+import { getAccuracyMode } from "@/lib/accuracy-mode"
+import { dataUrlToBlob, extractImageData } from "@/lib/processor"
+import {
+  searchFoods,
+  getFoodById,
+  addMealEntry,
+  addMealEntries,
+  getDefaultMealType,
+  type Food,
+  type MealType,
+  type PortionReferenceKind,
+} from "@/lib/db"
 import { useDatabase } from "@/components/database-provider"
+import { MealTypeSelect } from "@/components/meal-type-select"
+import { RegionPicker } from "@/components/region-picker"
+import { PortionRange } from "@/components/portion-range"
+import { PORTION_REFERENCES, estimatePortion } from "@/lib/portion"
+import { toLocalTimeString } from "@/lib/date"
+import { cn } from "@/lib/utils"
+
+const INFERENCE_STAGE_LABELS: Record<InferenceProgress["stage"], string> = {
+  downloading: "กำลังดาวน์โหลดโมเดล AI...",
+  loading: "กำลังโหลดโมเดล AI...",
+  preprocessing: "กำลังเตรียมรูปภาพ...",
+  inference: "กำลังวิเคราะห์...",
+  postprocessing: "กำลังสรุปผล...",
+}
+
+// One dish on the plate in multi-dish mode, saved as its own entry
+interface Dish {
+  id: number
+  region: Region
+  classification: FoodClassification | null
+  results: ClassificationResult[]
+  food: Food | null
+  grams: string | null // null follows the portion estimate
+  isClassifying: boolean
+}
+
+// Full-resolution pixels; the worker crops and resizes per the model's preprocessing config
+async function loadPixels(src: string): Promise<ImageData> {
+  const img = new Image()
+  img.crossOrigin = "anonymous"
+
+  await new Promise((resolve, reject) => {
+    img.onload = resolve
+    img.onerror = reject
+    img.src = src
+  })
+  return extractImageData(img)
+}
+
+// Confirmed foods teach the personal re-ranker; failing to store one shouldn't block the save
+async function rememberFood(classification: FoodClassification | null, foodId: string) {
+  if (!classification) return
+  await addPersonalExample(classification, foodId).catch((error) =>
+    console.error("Failed to store personal example:", error),
+  )
+}
 
 export default function ProcessPage() {
   const [isProcessing, setIsProcessing] = useState(false)
   const [results, setResults] = useState<ClassificationResult[]>([])
+  const [certainty, setCertainty] = useState<Certainty | null>(null)
   const [selectedFood, setSelectedFood] = useState<Food | null>(null)
   const [customSearch, setCustomSearch] = useState("")
   const [searchResults, setSearchResults] = useState<Food[]>([])
-  const [grams, setGrams] = useState("100")
+  // null until the user types, so the field follows the portion estimate for the selected food
+  const [grams, setGrams] = useState<string | null>(null)
+  const [mealType, setMealType] = useState<MealType>("snack")
   const [error, setError] = useState<string | null>(null)
   const [imageData, setImageData] = useState<string | null>(null)
+  // More frames of the same shot from /capture in accuracy mode
+  const [extraFrames, setExtraFrames] = useState<string[]>([])
+  const [progress, setProgress] = useState<InferenceProgress | null>(null)
+  // Set when the classifier can't run; the photo is still saved with a manually chosen food
+  const [manualReason, setManualReason] = useState<string | null>(null)
+  const [multiDish, setMultiDish] = useState(false)
+  const [dishes, setDishes] = useState<Dish[]>([])
+  const [activeDishId, setActiveDishId] = useState<number | null>(null)
+  const [canDetect, setCanDetect] = useState(false)
+  const [isDetecting, setIsDetecting] = useState(false)
+  const [photoSize, setPhotoSize] = useState<{ width: number; height: number } | null>(null)
+  const [referenceKind, setReferenceKind] = useState<PortionReferenceKind | null>(null)
+  const [referenceRegion, setReferenceRegion] = useState<Region | null>(null)
+  const [markingReference, setMarkingReference] = useState(false)
+  // Pixels of the photo once the classifier has run on it; regions are classified from these
+  const pixelsRef = useRef<ImageData | null>(null)
+  const classificationRef = useRef<FoodClassification | null>(null)
+  const nextDishId = useRef(1)
+  const dishSignal = useRef<AbortSignal | undefined>(undefined)
+  const accuracyModeRef = useRef<AccuracyMode>("fast")
 
   const router = useRouter()
   const searchParams = useSearchParams()
@@ -36,8 +131,11 @@ export default function ProcessPage() {
       // Try to get from localStorage as fallback
       const storedImage = localStorage.getItem("capturedImage")
       if (storedImage) {
+        const storedFrames = localStorage.getItem("capturedFrames")
         setImageData(storedImage)
+        setExtraFrames(storedFrames ? JSON.parse(storedFrames) : [])
         localStorage.removeItem("capturedImage") // Clean up
+        localStorage.removeItem("capturedFrames")
       } else {
         // No image data, redirect back
         router.push("/capture")
@@ -45,54 +143,85 @@ export default function ProcessPage() {
     }
   }, [searchParams, router])
 
-  // Process image when component mounts
+  // Default the meal type from the current time
+  useEffect(() => {
+    if (isReady) {
+      getDefaultMealType(toLocalTimeString())
+        .then(setMealType)
+        .catch((error) => console.error("Failed to resolve meal type:", error))
+    }
+  }, [isReady])
+
+  // Leaving the page also cancels any region classification still running
+  useEffect(() => {
+    const controller = new AbortController()
+    dishSignal.current = controller.signal
+    return () => controller.abort()
+  }, [])
+
+  // Process image when component mounts; leaving the page cancels inference
   useEffect(() => {
     if (imageData && isReady) {
-      processImage()
+      const controller = new AbortController()
+      processImage(controller.signal)
+      return () => controller.abort()
     }
   }, [imageData, isReady])
 
-  const processImage = useCallback(async () => {
+  const processImage = useCallback(async (signal: AbortSignal) => {
     if (!imageData) return
 
     try {
       setIsProcessing(true)
       setError(null)
+      setProgress(null)
 
-      // Create image element and extract ImageData
-      const img = new Image()
-      img.crossOrigin = "anonymous"
-
-      await new Promise((resolve, reject) => {
-        img.onload = resolve
-        img.onerror = reject
-        img.src = imageData
-      })
+      const status = await getMLStatus()
+      if (status && !status.available) {
+        setManualReason(status.reason ?? "ไม่สามารถโหลดโมเดล AI ได้")
+        return
+      }
 
-      // Extract image data for ML processing
-      const imgData = extractImageData(img, 224, 224)
+      const mode = await getAccuracyMode()
+      accuracyModeRef.current = mode
+      const imgData = await loadPixels(imageData)
 
-      // Classify the image
-      const classifications = await classifyFood(imgData)
+      // Classify the image (runs in a Web Worker); camera shots in accuracy mode vote across frames
+      const options = { signal, onProgress: setProgress }
+      const classification =
+        mode === "accurate" && extraFrames.length > 0
+          ? await classifyFrames([imgData, ...(await Promise.all(extraFrames.map(loadPixels)))], options)
+          : await classifyFood(imgData, { ...options, mode })
+      const classifications = classification.results
       setResults(classifications)
+      setCertainty(classification.certainty)
+      classificationRef.current = classification
+      pixelsRef.current = imgData
+      setCanDetect(await hasRegionDetector())
 
-      // Auto-select first result if confidence is high
-      if (classifications.length > 0 && classifications[0].confidence > 0.7) {
+      // Auto-select only when the model's calibrated scores say it's sure
+      if (classification.certainty === "confident" && classifications.length > 0) {
         const topResult = classifications[0]
         if (topResult.food_id) {
           const food = await getFoodById(topResult.food_id)
           if (food) {
             setSelectedFood(food)
           }
+        } else {
+          // Unmapped class: suggest matching foods rather than guessing one
+          setCustomSearch(topResult.label)
+          setSearchResults(await searchFoods(topResult.label, 10))
         }
       }
     } catch (error) {
+      if (signal.aborted) return
       console.error("Processing error:", error)
-      setError(error instanceof Error ? error.message : "เกิดข้อผิดพลาดในการประมวลผล")
+      // Any failure here falls back to manual mode instead of losing the photo
+      setManualReason(error instanceof Error ? error.message : "เกิดข้อผิดพลาดในการประมวลผล")
     } finally {
-      setIsProcessing(false)
+      if (!signal.aborted) setIsProcessing(false)
     }
-  }, [imageData])
+  }, [imageData, extraFrames])
 
   const handleSearch = useCallback(async (query: string) => {
     if (!query.trim()) {
@@ -108,23 +237,121 @@ export default function ProcessPage() {
     }
   }, [])
 
-  const handleFoodSelect = useCallback((food: Food) => {
-    setSelectedFood(food)
-    setCustomSearch("")
-    setSearchResults([])
+  const updateDish = useCallback((id: number, changes: Partial<Dish>) => {
+    setDishes((current) => current.map((dish) => (dish.id === id ? { ...dish, ...changes } : dish)))
   }, [])
 
+  const handleFoodSelect = useCallback(
+    (food: Food) => {
+      // In multi-dish mode the search fills in the selected dish
+      if (multiDish) {
+        if (activeDishId !== null) updateDish(activeDishId, { food, grams: null })
+      } else {
+        setSelectedFood(food)
+        setGrams(null)
+      }
+      setCustomSearch("")
+      setSearchResults([])
+    },
+    [multiDish, activeDishId, updateDish],
+  )
+
+  const addDishes = useCallback(
+    async (regions: Region[]) => {
+      const pixels = pixelsRef.current
+      const added: Dish[] = regions.map((region) => ({
+        id: nextDishId.current++,
+        region,
+        classification: null,
+        results: [],
+        food: null,
+        grams: null,
+        isClassifying: pixels !== null,
+      }))
+      if (added.length === 0) return
+
+      setDishes((current) => [...current, ...added])
+      setActiveDishId(added[0].id)
+      if (!pixels) return
+
+      try {
+        const classifications = await classifyRegions(pixels, regions, {
+          signal: dishSignal.current,
+          mode: accuracyModeRef.current,
+        })
+        for (const [index, dish] of added.entries()) {
+          const classification = classifications[index] ?? null
+          const results = classification?.results ?? []
+          const top = results[0]
+          const isConfident = classification?.certainty === "confident"
+          const food = isConfident && top?.food_id ? ((await getFoodById(top.food_id)) ?? null) : null
+          updateDish(dish.id, { classification, results, food, isClassifying: false })
+        }
+      } catch (error) {
+        if (dishSignal.current?.aborted) return
+        console.error("Region classification error:", error)
+        for (const dish of added) updateDish(dish.id, { isClassifying: false })
+        setError("วิเคราะห์บางจานไม่สำเร็จ กรุณาเลือกอาหารเอง")
+      }
+    },
+    [updateDish],
+  )
+
+  const handleDetect = useCallback(async () => {
+    const pixels = pixelsRef.current
+    if (!pixels) return
+
+    try {
+      setIsDetecting(true)
+      setError(null)
+      const regions = await detectFoodRegions(pixels, { signal: dishSignal.current })
+      if (regions.length === 0) {
+        setError("ไม่พบอาหารในรูป ลองลากกรอบแต่ละจานเอง")
+        return
+      }
+      await addDishes(regions)
+    } catch (error) {
+      if (dishSignal.current?.aborted) return
+      console.error("Detection error:", error)
+      setError("ตรวจหาอาหารในรูปไม่สำเร็จ ลองลากกรอบแต่ละจานเอง")
+    } finally {
+      setIsDetecting(false)
+    }
+  }, [addDishes])
+
+  const removeDish = useCallback((id: number) => {
+    setDishes((current) => current.filter((dish) => dish.id !== id))
+    setActiveDishId((current) => (current === id ? null : current))
+  }, [])
+
+  const handleDishResult = useCallback(
+    async (id: number, result: ClassificationResult) => {
+      setActiveDishId(id)
+      if (result.food_id) {
+        const food = await getFoodById(result.food_id)
+        if (food) updateDish(id, { food, grams: null })
+      } else {
+        setCustomSearch(result.label)
+        handleSearch(result.label)
+      }
+    },
+    [updateDish, handleSearch],
+  )
+
   const handleSaveMeal = useCallback(async () => {
     if (!selectedFood) return
 
     try {
-      const gramsNum = Number.parseFloat(grams)
+      const portionEstimate = estimatePortion(selectedFood)
+      const gramsNum = Number.parseFloat(grams ?? String(portionEstimate.grams))
       if (isNaN(gramsNum) || gramsNum <= 0) {
         setError("กรุณาใส่น้ำหนักที่ถูกต้อง")
         return
       }
 
-      await addMealEntry(selectedFood, gramsNum)
+      const photo = imageData ? dataUrlToBlob(imageData) : undefined
+      await addMealEntry(selectedFood, gramsNum, { mealType, source: "photo", photo, portionEstimate })
+      await rememberFood(classificationRef.current, selectedFood.id)
 
       // Navigate back to home with success message
       router.push("/?saved=true")
@@ -132,7 +359,55 @@ export default function ProcessPage() {
       console.error("Save error:", error)
       setError("ไม่สามารถบันทึกข้อมูลได้")
     }
-  }, [selectedFood, grams, router])
+  }, [selectedFood, grams, mealType, imageData, router])
+
+  // Area-based once a reference object is marked, otherwise the food's typical serving
+  const getDishEstimate = useCallback(
+    (dish: Dish) => {
+      if (!dish.food) return null
+      const reference = referenceKind && referenceRegion && { kind: referenceKind, region: referenceRegion }
+      return estimatePortion(
+        dish.food,
+        reference && photoSize ? { ...photoSize, region: dish.region, reference } : undefined,
+      )
+    },
+    [referenceKind, referenceRegion, photoSize],
+  )
+
+  const handleSaveDishes = useCallback(async () => {
+    const items: Parameters<typeof addMealEntries>[0] = []
+    for (const [index, dish] of dishes.entries()) {
+      const portionEstimate = getDishEstimate(dish) ?? undefined
+      const gramsNum = Number.parseFloat(dish.grams ?? String(portionEstimate?.grams))
+      if (!dish.food) {
+        setActiveDishId(dish.id)
+        setError(`กรุณาเลือกอาหารของจานที่ ${index + 1}`)
+        return
+      }
+      if (isNaN(gramsNum) || gramsNum <= 0) {
+        setActiveDishId(dish.id)
+        setError(`กรุณาใส่น้ำหนักของจานที่ ${index + 1} ให้ถูกต้อง`)
+        return
+      }
+      items.push({ food: dish.food, grams: gramsNum, portionEstimate })
+    }
+
+    try {
+      const photo = imageData ? dataUrlToBlob(imageData) : undefined
+      await addMealEntries(items, { mealType, source: "photo", photo })
+      for (const [index, dish] of dishes.entries()) {
+        await rememberFood(dish.classification, items[index].food.id)
+      }
+      router.push("/?saved=true")
+    } catch (error) {
+      console.error("Save error:", error)
+      setError("ไม่สามารถบันทึกข้อมูลได้")
+    }
+  }, [dishes, getDishEstimate, mealType, imageData, router])
+
+  const activeDishIndex = dishes.findIndex((dish) => dish.id === activeDishId)
+  const singleEstimate = selectedFood ? estimatePortion(selectedFood) : null
+  const gramsValue = grams ?? (singleEstimate ? String(singleEstimate.grams) : "")
 
   if (!imageData) {
     return (
@@ -163,12 +438,109 @@ export default function ProcessPage() {
         <div className="p-4 space-y-4">
           {/* Image Preview */}
           <Card>
-            <CardContent className="p-4">
-              <img
-                src={imageData || "/placeholder.svg"}
-                alt="Food to analyze"
-                className="w-full h-48 object-cover rounded-lg"
-              />
+            <CardContent className="p-4 space-y-3">
+              {multiDish ? (
+                <RegionPicker
+                  src={imageData}
+                  regions={dishes.map((dish) => dish.region)}
+                  activeIndex={activeDishIndex === -1 ? null : activeDishIndex}
+                  onSelect={(index) => setActiveDishId(dishes[index].id)}
+                  onDraw={(region) => {
+                    if (markingReference) {
+                      setReferenceRegion(region)
+                      setMarkingReference(false)
+                    } else {
+                      addDishes([region])
+                    }
+                  }}
+                  reference={referenceKind ? referenceRegion : null}
+                  onImageLoad={setPhotoSize}
+                  disabled={isProcessing}
+                />
+              ) : (
+                <img
+                  src={imageData || "/placeholder.svg"}
+                  alt="Food to analyze"
+                  className="w-full h-48 object-cover rounded-lg"
+                />
+              )}
+
+              {!isProcessing && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant={multiDish ? "default" : "outline"}
+                    className={cn(!multiDish && "bg-transparent")}
+                    onClick={() => setMultiDish(!multiDish)}
+                  >
+                    <LayoutGrid className="h-4 w-4 mr-2" />
+                    หลายจาน
+                  </Button>
+                  {multiDish && canDetect && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="bg-transparent"
+                      onClick={handleDetect}
+                      disabled={isDetecting}
+                    >
+                      {isDetecting ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <ScanSearch className="h-4 w-4 mr-2" />
+                      )}
+                      ตรวจหาอัตโนมัติ
+                    </Button>
+                  )}
+                </div>
+              )}
+              {multiDish && (
+                <p className="text-xs text-muted-foreground">
+                  ลากบนรูปเพื่อตีกรอบแต่ละจาน แล้วเลือกอาหารและน้ำหนักของแต่ละจาน
+                </p>
+              )}
+
+              {/* Portion Reference */}
+              {multiDish && (
+                <div className="space-y-2">
+                  <Label htmlFor="portion_reference">วัตถุอ้างอิงในรูป (ช่วยประมาณน้ำหนัก)</Label>
+                  <Select
+                    value={referenceKind ?? "none"}
+                    onValueChange={(value) => {
+                      const kind = value === "none" ? null : (value as PortionReferenceKind)
+                      setReferenceKind(kind)
+                      setMarkingReference(kind !== null && referenceRegion === null)
+                    }}
+                  >
+                    <SelectTrigger id="portion_reference">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">ไม่มี</SelectItem>
+                      {(Object.keys(PORTION_REFERENCES) as PortionReferenceKind[]).map((kind) => (
+                        <SelectItem key={kind} value={kind}>
+                          {PORTION_REFERENCES[kind].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {referenceKind && (
+                    <Button
+                      size="sm"
+                      variant={markingReference ? "default" : "outline"}
+                      className={cn(!markingReference && "bg-transparent")}
+                      onClick={() => setMarkingReference(!markingReference)}
+                    >
+                      <Ruler className="h-4 w-4 mr-2" />
+                      {markingReference
+                        ? "ลากกรอบรอบวัตถุอ้างอิงบนรูป"
+                        : referenceRegion
+                          ? "ตีกรอบวัตถุอ้างอิงใหม่"
+                          : "ตีกรอบวัตถุอ้างอิง"}
+                    </Button>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -181,6 +553,24 @@ export default function ProcessPage() {
             </Card>
           )}
 
+          {/* Manual Mode */}
+          {manualReason && (
+            <Card>
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-center gap-2 font-semibold">
+                  <ImageOff className="h-5 w-5" />
+                  เลือกอาหารเอง
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  AI ไม่พร้อมใช้งาน ({manualReason}) ค้นหาเมนูด้านล่าง รูปนี้จะถูกบันทึกไว้กับอาหารที่เลือก
+                </p>
+                <Link href="/settings" className="text-sm text-primary underline">
+                  ลองโหลดโมเดลใหม่ในหน้าตั้งค่า
+                </Link>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Processing State */}
           {isProcessing && (
             <Card>
@@ -189,15 +579,33 @@ export default function ProcessPage() {
                   <Loader2 className="h-8 w-8 animate-spin mx-auto" />
                   <div>
                     <h3 className="font-semibold">กำลังวิเคราะห์รูปภาพ</h3>
-                    <p className="text-sm text-muted-foreground">กรุณารอสักครู่...</p>
+                    <p className="text-sm text-muted-foreground">
+                      {progress ? INFERENCE_STAGE_LABELS[progress.stage] : "กรุณารอสักครู่..."}
+                    </p>
                   </div>
+                  {(progress?.stage === "downloading" || progress?.stage === "loading") && <Progress value={progress.progress * 100} className="h-2" />}
                 </div>
               </CardContent>
             </Card>
           )}
 
           {/* Classification Results */}
-          {results.length > 0 && !isProcessing && (
+          {/* Unsure Result */}
+          {certainty === "unsure" && !isProcessing && !multiDish && (
+            <Card>
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-center gap-2 font-semibold">
+                  <HelpCircle className="h-5 w-5" />
+                  AI ไม่แน่ใจ
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  ไม่แน่ใจว่าเป็นอาหารอะไร หรือรูปนี้อาจไม่ใช่อาหาร กรุณาค้นหาเมนูด้านล่าง
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {results.length > 0 && !isProcessing && !multiDish && certainty !== "unsure" && (
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">ผลการวิเคราะห์</CardTitle>
@@ -206,12 +614,16 @@ export default function ProcessPage() {
                 {results.map((result, index) => (
                   <Button
                     key={index}
-                    variant={selectedFood?.id === result.food_id ? "default" : "outline"}
+                    variant={result.food_id && selectedFood?.id === result.food_id ? "default" : "outline"}
                     className="w-full justify-between h-auto p-3"
                     onClick={async () => {
                       if (result.food_id) {
                         const food = await getFoodById(result.food_id)
                         if (food) handleFoodSelect(food)
+                      } else {
+                        // No food for this class; use the label as a search instead
+                        setCustomSearch(result.label)
+                        handleSearch(result.label)
                       }
                     }}
                   >
@@ -219,56 +631,172 @@ export default function ProcessPage() {
                       <div className="font-medium">{result.label}</div>
                       <div className="text-xs opacity-70">ความมั่นใจ: {Math.round(result.confidence * 100)}%</div>
                     </span>
+                    {!result.food_id && (
+                      <span className="flex items-center text-xs opacity-70">
+                        <Search className="h-3 w-3 mr-1" />
+                        ค้นหา
+                      </span>
+                    )}
                   </Button>
                 ))}
               </CardContent>
             </Card>
           )}
 
-          {/* Manual Search */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg flex items-center gap-2">
-                <Search className="h-5 w-5" />
-                ค้นหาเมนูเอง
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <Input
-                  placeholder="ค้นหาชื่ออาหาร..."
-                  value={customSearch}
-                  onChange={(e) => {
-                    setCustomSearch(e.target.value)
-                    handleSearch(e.target.value)
-                  }}
-                />
-              </div>
+          {/* Dishes */}
+          {multiDish && dishes.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">อาหารในรูป ({dishes.length} จาน)</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {dishes.map((dish, index) => {
+                  const estimate = getDishEstimate(dish)
+                  const dishGrams = dish.grams ?? (estimate ? String(estimate.grams) : "")
 
-              {searchResults.length > 0 && (
-                <div className="space-y-2 max-h-48 overflow-y-auto">
-                  {searchResults.map((food) => (
-                    <Button
-                      key={food.id}
-                      variant="outline"
-                      className="w-full justify-start h-auto p-3 bg-transparent"
-                      onClick={() => handleFoodSelect(food)}
+                  return (
+                    <div
+                      key={dish.id}
+                      className={cn(
+                        "p-3 rounded-lg border space-y-2",
+                        dish.id === activeDishId ? "border-primary" : "border-border",
+                      )}
+                      onClick={() => setActiveDishId(dish.id)}
                     >
-                      <div className="text-left">
-                        <div className="font-medium">{food.name_th}</div>
-                        <div className="text-xs text-muted-foreground">
-                          {food.kcal_per_100g} kcal/100g • {food.category}
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">จานที่ {index + 1}</span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-destructive hover:text-destructive"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            removeDish(dish.id)
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+
+                      {dish.isClassifying && (
+                        <p className="flex items-center text-xs text-muted-foreground">
+                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                          กำลังวิเคราะห์...
+                        </p>
+                      )}
+
+                      {dish.classification?.certainty === "unsure" && (
+                        <p className="flex items-center text-xs text-muted-foreground">
+                          <HelpCircle className="h-3 w-3 mr-1" />
+                          AI ไม่แน่ใจ กรุณาค้นหาเมนูเอง
+                        </p>
+                      )}
+
+                      {dish.results.length > 0 && dish.classification?.certainty !== "unsure" && (
+                        <div className="flex flex-wrap gap-1">
+                          {dish.results.map((result, resultIndex) => (
+                            <Button
+                              key={resultIndex}
+                              size="sm"
+                              variant={result.food_id && dish.food?.id === result.food_id ? "default" : "outline"}
+                              className="h-auto py-1 text-xs"
+                              onClick={() => handleDishResult(dish.id, result)}
+                            >
+                              {result.label} {Math.round(result.confidence * 100)}%
+                            </Button>
+                          ))}
                         </div>
+                      )}
+
+                      <div className="text-sm">
+                        {dish.food ? (
+                          `${dish.food.name_th} • ${dish.food.kcal_per_100g} kcal/100g`
+                        ) : (
+                          <span className="text-muted-foreground">ยังไม่ได้เลือกอาหาร ค้นหาด้านล่าง</span>
+                        )}
                       </div>
-                    </Button>
-                  ))}
+
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor={`grams-${dish.id}`} className="shrink-0">
+                          น้ำหนัก (กรัม)
+                        </Label>
+                        <Input
+                          id={`grams-${dish.id}`}
+                          type="number"
+                          value={dishGrams}
+                          onChange={(e) => updateDish(dish.id, { grams: e.target.value })}
+                          min="1"
+                          max="2000"
+                        />
+                      </div>
+
+                      {estimate && (
+                        <PortionRange
+                          estimate={estimate}
+                          grams={Number.parseFloat(dishGrams)}
+                          onPick={(picked) => updateDish(dish.id, { grams: String(picked) })}
+                        />
+                      )}
+                    </div>
+                  )
+                })}
+
+                <MealTypeSelect value={mealType} onChange={setMealType} />
+
+                <Button onClick={handleSaveDishes} className="w-full" size="lg">
+                  <Plus className="h-4 w-4 mr-2" />
+                  บันทึก {dishes.length} รายการ
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Manual Search */}
+          {(!multiDish || activeDishIndex !== -1) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Search className="h-5 w-5" />
+                  {multiDish ? `ค้นหาเมนูของจานที่ ${activeDishIndex + 1}` : "ค้นหาเมนูเอง"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Input
+                    placeholder="ค้นหาชื่ออาหาร..."
+                    value={customSearch}
+                    onChange={(e) => {
+                      setCustomSearch(e.target.value)
+                      handleSearch(e.target.value)
+                    }}
+                  />
                 </div>
-              )}
-            </CardContent>
-          </Card>
+
+                {searchResults.length > 0 && (
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {searchResults.map((food) => (
+                      <Button
+                        key={food.id}
+                        variant="outline"
+                        className="w-full justify-start h-auto p-3 bg-transparent"
+                        onClick={() => handleFoodSelect(food)}
+                      >
+                        <div className="text-left">
+                          <div className="font-medium">{food.name_th}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {food.kcal_per_100g} kcal/100g • {food.category}
+                          </div>
+                        </div>
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
 
           {/* Selected Food Details */}
-          {selectedFood && (
+          {selectedFood && !multiDish && (
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">รายละเอียดอาหาร</CardTitle>
@@ -304,14 +832,23 @@ export default function ProcessPage() {
                   <Input
                     id="grams"
                     type="number"
-                    value={grams}
+                    value={gramsValue}
                     onChange={(e) => setGrams(e.target.value)}
                     placeholder="100"
                     min="1"
                     max="2000"
                   />
+                  {singleEstimate && (
+                    <PortionRange
+                      estimate={singleEstimate}
+                      grams={Number.parseFloat(gramsValue)}
+                      onPick={(picked) => setGrams(String(picked))}
+                    />
+                  )}
                 </div>
 
+                <MealTypeSelect value={mealType} onChange={setMealType} />
+
                 <Button onClick={handleSaveMeal} className="w-full" size="lg">
                   <Plus className="h-4 w-4 mr-2" />
                   บันทึกมื้ออาหาร
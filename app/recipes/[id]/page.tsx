@@ -0,0 +1,164 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, Trash2, Loader2 } from "lucide-react"
+import Link from "next/link"
+import { useRouter, useParams } from "next/navigation"
+import { getRecipeById, getFoodById, updateRecipe, deleteRecipe, type Recipe, type Food } from "@/lib/db"
+import type { RecipeInput } from "@/lib/schemas"
+import { RecipeForm } from "@/components/recipe-form"
+import { useDatabase } from "@/components/database-provider"
+
+export default function EditRecipePage() {
+  const [recipe, setRecipe] = useState<Recipe | null>(null)
+  const [ingredients, setIngredients] = useState<{ food: Food; grams: number }[]>([])
+  const [missingCount, setMissingCount] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const router = useRouter()
+  const params = useParams()
+  const recipeId = decodeURIComponent(params.id as string)
+  const { isReady } = useDatabase()
+
+  useEffect(() => {
+    async function loadRecipe() {
+      try {
+        setIsLoading(true)
+        const recipeData = await getRecipeById(recipeId)
+        if (!recipeData) {
+          setRecipe(null)
+          return
+        }
+
+        const foods = await Promise.all(recipeData.ingredients.map((ingredient) => getFoodById(ingredient.food_id)))
+        const loaded: { food: Food; grams: number }[] = []
+        recipeData.ingredients.forEach((ingredient, index) => {
+          const food = foods[index]
+          if (food) loaded.push({ food, grams: ingredient.grams })
+        })
+
+        setIngredients(loaded)
+        setMissingCount(recipeData.ingredients.length - loaded.length)
+        setRecipe(recipeData)
+      } catch (error) {
+        console.error("Failed to load recipe:", error)
+        setError("ไม่สามารถโหลดข้อมูลได้")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (isReady) {
+      loadRecipe()
+    }
+  }, [isReady, recipeId])
+
+  const handleSubmit = useCallback(
+    async (data: RecipeInput) => {
+      try {
+        setError(null)
+        await updateRecipe(recipeId, data)
+        router.push("/recipes?updated=true")
+      } catch (error) {
+        console.error("Save error:", error)
+        setError(error instanceof Error ? error.message : "ไม่สามารถบันทึกสูตรอาหารได้")
+      }
+    },
+    [recipeId, router],
+  )
+
+  const handleDelete = useCallback(async () => {
+    if (!recipe || !confirm(`ต้องการลบ "${recipe.name_th}" หรือไม่? รายการที่บันทึกไว้แล้วจะไม่ถูกลบ`)) return
+
+    try {
+      await deleteRecipe(recipe.id)
+      router.push("/recipes?deleted=true")
+    } catch (error) {
+      console.error("Delete error:", error)
+      setError(error instanceof Error ? error.message : "ไม่สามารถลบสูตรอาหารได้")
+    }
+  }, [recipe, router])
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p>กำลังโหลด...</p>
+        </div>
+      </main>
+    )
+  }
+
+  if (!recipe) {
+    return (
+      <main className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <p className="text-destructive">{error || "ไม่พบสูตรอาหารที่ต้องการแก้ไข"}</p>
+          <Link href="/recipes">
+            <Button>กลับไปสูตรอาหาร</Button>
+          </Link>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <Link href="/recipes">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              กลับ
+            </Button>
+          </Link>
+          <h1 className="text-lg font-semibold">แก้ไขสูตรอาหาร</h1>
+          <Button variant="ghost" size="sm" onClick={handleDelete} className="text-destructive hover:text-destructive">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Error Display */}
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="p-4">
+                <p className="text-destructive text-sm">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {missingCount > 0 && (
+            <Card className="border-amber-200 bg-amber-50">
+              <CardContent className="p-4">
+                <p className="text-sm text-amber-800">
+                  วัตถุดิบ {missingCount} รายการถูกลบออกจากฐานข้อมูลแล้ว และจะถูกนำออกจากสูตรเมื่อบันทึก
+                  กรุณาตรวจสอบสูตรก่อนบันทึก
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">ข้อมูลสูตรอาหาร</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RecipeForm
+                initialRecipe={recipe}
+                initialIngredients={ingredients}
+                submitLabel="บันทึกการแก้ไข"
+                onSubmit={handleSubmit}
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  )
+}
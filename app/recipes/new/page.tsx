@@ -0,0 +1,69 @@
+"use client"
+
+import { useState, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft } from "lucide-react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { createRecipe } from "@/lib/db"
+import type { RecipeInput } from "@/lib/schemas"
+import { RecipeForm } from "@/components/recipe-form"
+
+export default function NewRecipePage() {
+  const [error, setError] = useState<string | null>(null)
+
+  const router = useRouter()
+
+  const handleSubmit = useCallback(
+    async (data: RecipeInput) => {
+      try {
+        setError(null)
+        await createRecipe(data)
+        router.push("/recipes?saved=true")
+      } catch (error) {
+        console.error("Save error:", error)
+        setError(error instanceof Error ? error.message : "ไม่สามารถบันทึกสูตรอาหารได้")
+      }
+    },
+    [router],
+  )
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <Link href="/recipes">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              กลับ
+            </Button>
+          </Link>
+          <h1 className="text-lg font-semibold">สร้างสูตรอาหาร</h1>
+          <div className="w-16"></div>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Error Display */}
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="p-4">
+                <p className="text-destructive text-sm">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">ข้อมูลสูตรอาหาร</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RecipeForm onSubmit={handleSubmit} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  )
+}
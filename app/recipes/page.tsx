@@ -0,0 +1,145 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { ArrowLeft, Plus, Edit, Trash2 } from "lucide-react"
+import Link from "next/link"
+import { getRecipes, deleteRecipe, type Recipe } from "@/lib/db"
+import { useDatabase } from "@/components/database-provider"
+
+export default function RecipesPage() {
+  const [recipes, setRecipes] = useState<Recipe[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const { isReady } = useDatabase()
+
+  useEffect(() => {
+    if (isReady) {
+      loadRecipes()
+    }
+  }, [isReady])
+
+  const loadRecipes = async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      setRecipes(await getRecipes())
+    } catch (error) {
+      console.error("Failed to load recipes:", error)
+      setError("ไม่สามารถโหลดข้อมูลได้")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDelete = async (recipe: Recipe) => {
+    if (!confirm(`ต้องการลบ "${recipe.name_th}" หรือไม่? รายการที่บันทึกไว้แล้วจะไม่ถูกลบ`)) return
+
+    try {
+      await deleteRecipe(recipe.id)
+      await loadRecipes()
+    } catch (error) {
+      console.error("Failed to delete recipe:", error)
+      setError(error instanceof Error ? error.message : "ไม่สามารถลบสูตรอาหารได้")
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>กำลังโหลด...</p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <Link href="/settings">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              กลับ
+            </Button>
+          </Link>
+          <h1 className="text-lg font-semibold">สูตรอาหารของฉัน</h1>
+          <Link href="/recipes/new">
+            <Button variant="ghost" size="sm">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </Link>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Error Display */}
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="p-4">
+                <p className="text-destructive text-sm">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {recipes.length > 0 ? (
+            <div className="space-y-3">
+              {recipes.map((recipe) => (
+                <Card key={recipe.id}>
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <h3 className="font-semibold">{recipe.name_th}</h3>
+                        {recipe.name_en && <p className="text-sm text-muted-foreground">{recipe.name_en}</p>}
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {recipe.ingredients.length} วัตถุดิบ • {recipe.cooked_weight} กรัมหลังปรุง
+                        </div>
+                      </div>
+
+                      <div className="flex gap-1 ml-2">
+                        <Link href={`/recipes/${recipe.id}`}>
+                          <Button variant="ghost" size="sm">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(recipe)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="p-6">
+                <div className="text-center space-y-4">
+                  <div>
+                    <h3 className="text-lg font-semibold">ยังไม่มีสูตรอาหาร</h3>
+                    <p className="text-muted-foreground">รวมวัตถุดิบเป็นเมนูทำเองเพื่อบันทึกได้แม่นยำขึ้น</p>
+                  </div>
+                  <Link href="/recipes/new">
+                    <Button>
+                      <Plus className="h-4 w-4 mr-2" />
+                      สร้างสูตรอาหาร
+                    </Button>
+                  </Link>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -3,13 +3,35 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, User, Target, Info, Edit } from "lucide-react";
+import {
+  ArrowLeft,
+  User,
+  Target,
+  Info,
+  Edit,
+  UtensilsCrossed,
+  FileSpreadsheet,
+} from "lucide-react";
 import Link from "next/link";
-import { getUserProfile, type UserProfile } from "@/lib/db";
+import {
+  getUserProfile,
+  getCatalogStatus,
+  type UserProfile,
+  type CatalogUpdateReport,
+} from "@/lib/db";
 import { useDatabase } from "@/components/database-provider";
+import { MealTypeSettings } from "@/components/meal-type-settings";
+import { BackupSettings } from "@/components/backup-settings";
+import { CsvExport } from "@/components/csv-export";
+import { CsvImport } from "@/components/csv-import";
+import { ModelSettings } from "@/components/model-settings";
 
 export default function SettingsPage() {
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [catalog, setCatalog] = useState<{
+    version: string | null;
+    lastUpdate: CatalogUpdateReport | null;
+  } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { isReady } = useDatabase();
 
@@ -18,8 +40,12 @@ export default function SettingsPage() {
       if (!isReady) return;
 
       try {
-        const userProfile = await getUserProfile();
+        const [userProfile, catalogStatus] = await Promise.all([
+          getUserProfile(),
+          getCatalogStatus(),
+        ]);
         setProfile(userProfile || null);
+        setCatalog(catalogStatus);
       } catch (error) {
         console.error("Failed to load profile:", error);
       } finally {
@@ -152,6 +178,59 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          <MealTypeSettings />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UtensilsCrossed className="h-5 w-5" />
+                อาหารของฉัน
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                เพิ่มอาหารที่ไม่มีในฐานข้อมูล หรือรวมวัตถุดิบเป็นเมนูทำเอง
+              </p>
+              <Link href="/foods">
+                <Button
+                  variant="outline"
+                  className="w-full justify-start bg-transparent"
+                >
+                  จัดการอาหารของฉัน
+                </Button>
+              </Link>
+              <Link href="/recipes">
+                <Button
+                  variant="outline"
+                  className="w-full justify-start bg-transparent"
+                >
+                  สูตรอาหารทำเอง
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <ModelSettings />
+
+          <BackupSettings />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileSpreadsheet className="h-5 w-5" />
+                ส่งออก CSV
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                ไฟล์สำหรับเปิดใน Excel หรือส่งให้นักกำหนดอาหาร
+              </p>
+              <CsvExport />
+            </CardContent>
+          </Card>
+
+          <CsvImport />
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -165,6 +244,16 @@ export default function SettingsPage() {
                 <p>แอปบันทึกแคลอรี่จากรูปถ่าย</p>
                 <p>ใช้งานออฟไลน์ได้</p>
                 <p>พัฒนาด้วย Next.js + ONNX Runtime</p>
+                {catalog?.version && (
+                  <p>ฐานข้อมูลอาหาร v{catalog.version}</p>
+                )}
+                {catalog?.lastUpdate && (
+                  <p className="text-xs">
+                    อัปเดตล่าสุด: เพิ่ม {catalog.lastUpdate.added.length} •
+                    แก้ไข {catalog.lastUpdate.updated.length} • เลิกใช้{" "}
+                    {catalog.lastUpdate.retired.length} รายการ
+                  </p>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,308 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ArrowLeft, TrendingUp } from "lucide-react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { getSummaries, getUserProfile, type PeriodSummary } from "@/lib/db"
+import { addDaysToDateString, getTodayDateString, isValidDateString, parseLocalDate } from "@/lib/date"
+import { useDatabase } from "@/components/database-provider"
+
+type RangeMode = "week" | "month" | "custom"
+
+const RANGE_OPTIONS: { value: RangeMode; label: string }[] = [
+  { value: "week", label: "7 วัน" },
+  { value: "month", label: "30 วัน" },
+  { value: "custom", label: "กำหนดเอง" },
+]
+
+const ROLLING_WINDOW = 7
+
+interface TrendPoint {
+  date: string
+  label: string
+  kcal: number
+  protein: number
+  carb: number
+  fat: number
+  rolling_kcal: number | null
+}
+
+/**
+ * 7-day rolling average of kcal over days that have at least one entry,
+ * so days that weren't logged don't drag the average down.
+ */
+function withRollingAverage(days: PeriodSummary[], visibleFrom: string): TrendPoint[] {
+  return days
+    .map((day, index) => {
+      const window = days.slice(Math.max(0, index - ROLLING_WINDOW + 1), index + 1).filter((d) => d.meal_count > 0)
+      const rolling = window.length > 0 ? window.reduce((sum, d) => sum + d.total_kcal, 0) / window.length : null
+
+      return {
+        date: day.period_start,
+        label: parseLocalDate(day.period_start).toLocaleDateString("th-TH", { day: "numeric", month: "short" }),
+        kcal: day.total_kcal,
+        protein: day.total_protein,
+        carb: day.total_carb,
+        fat: day.total_fat,
+        rolling_kcal: rolling === null ? null : Math.round(rolling),
+      }
+    })
+    .filter((point) => point.date >= visibleFrom)
+}
+
+export default function TrendsPage() {
+  const today = getTodayDateString()
+  const [rangeMode, setRangeMode] = useState<RangeMode>("week")
+  const [customStart, setCustomStart] = useState(() => addDaysToDateString(today, -13))
+  const [customEnd, setCustomEnd] = useState(today)
+  const [days, setDays] = useState<PeriodSummary[]>([])
+  const [calorieGoal, setCalorieGoal] = useState(2000)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const router = useRouter()
+  const { isReady } = useDatabase()
+
+  const { start, end } = useMemo(() => {
+    switch (rangeMode) {
+      case "month":
+        return { start: addDaysToDateString(today, -29), end: today }
+      case "custom":
+        return { start: customStart, end: customEnd }
+      case "week":
+      default:
+        return { start: addDaysToDateString(today, -6), end: today }
+    }
+  }, [rangeMode, customStart, customEnd, today])
+
+  useEffect(() => {
+    async function loadTrends() {
+      if (!isValidDateString(start) || !isValidDateString(end) || start > end) {
+        setError("ช่วงวันที่ไม่ถูกต้อง")
+        setDays([])
+        setIsLoading(false)
+        return
+      }
+
+      try {
+        setIsLoading(true)
+        setError(null)
+
+        // Load extra days before the range so the rolling average is complete from day one
+        const [summaries, profile] = await Promise.all([
+          getSummaries(addDaysToDateString(start, -(ROLLING_WINDOW - 1)), end, "day"),
+          getUserProfile(),
+        ])
+        setDays(summaries)
+        setCalorieGoal(profile?.daily_kcal_goal || 2000)
+      } catch (error) {
+        console.error("Failed to load trends:", error)
+        setError("ไม่สามารถโหลดข้อมูลได้")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (isReady) {
+      loadTrends()
+    }
+  }, [isReady, start, end])
+
+  const points = useMemo(() => withRollingAverage(days, start), [days, start])
+  const loggedPoints = points.filter((point) => point.kcal > 0)
+  const averageKcal =
+    loggedPoints.length > 0
+      ? Math.round(loggedPoints.reduce((sum, point) => sum + point.kcal, 0) / loggedPoints.length)
+      : 0
+  const daysOverGoal = loggedPoints.filter((point) => point.kcal > calorieGoal).length
+
+  const openDay = (date?: string) => {
+    if (date) router.push(`/history?date=${date}`)
+  }
+
+  // recharts passes the clicked category's payload on chart clicks
+  const handleChartClick = (state: { activePayload?: { payload?: TrendPoint }[] } | null) => {
+    openDay(state?.activePayload?.[0]?.payload?.date)
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="mx-auto max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <Link href="/">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              กลับ
+            </Button>
+          </Link>
+          <h1 className="text-lg font-semibold">แนวโน้ม</h1>
+          <div className="w-16"></div>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Range Selector */}
+          <Card>
+            <CardContent className="p-4 space-y-4">
+              <div className="grid grid-cols-3 gap-2">
+                {RANGE_OPTIONS.map((option) => (
+                  <Button
+                    key={option.value}
+                    variant={rangeMode === option.value ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setRangeMode(option.value)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+
+              {rangeMode === "custom" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="start">ตั้งแต่</Label>
+                    <Input
+                      id="start"
+                      type="date"
+                      value={customStart}
+                      max={customEnd}
+                      onChange={(e) => setCustomStart(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="end">ถึง</Label>
+                    <Input
+                      id="end"
+                      type="date"
+                      value={customEnd}
+                      min={customStart}
+                      max={today}
+                      onChange={(e) => setCustomEnd(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Error Display */}
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="p-4">
+                <p className="text-destructive text-sm">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+              <p>กำลังโหลด...</p>
+            </div>
+          ) : (
+            !error && (
+              <>
+                {/* Overview */}
+                <Card>
+                  <CardContent className="p-4">
+                    <div className="grid grid-cols-3 gap-4 text-center">
+                      <div>
+                        <div className="text-xl font-bold text-emerald-600">{averageKcal}</div>
+                        <div className="text-xs text-muted-foreground">เฉลี่ย kcal/วัน</div>
+                      </div>
+                      <div>
+                        <div className="text-xl font-bold text-blue-600">{loggedPoints.length}</div>
+                        <div className="text-xs text-muted-foreground">วันที่บันทึก</div>
+                      </div>
+                      <div>
+                        <div className="text-xl font-bold text-red-600">{daysOverGoal}</div>
+                        <div className="text-xs text-muted-foreground">วันที่เกินเป้า</div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Calories vs Goal */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <TrendingUp className="h-5 w-5" />
+                      แคลอรี่เทียบเป้าหมาย
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={points} onClick={handleChartClick} margin={{ left: -16, right: 8 }}>
+                          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                          <XAxis dataKey="label" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+                          <YAxis tick={{ fontSize: 10 }} />
+                          <Tooltip />
+                          <Legend wrapperStyle={{ fontSize: 12 }} />
+                          <Bar dataKey="kcal" name="แคลอรี่" fill="#059669" radius={[4, 4, 0, 0]} cursor="pointer" />
+                          <Line
+                            dataKey="rolling_kcal"
+                            name="เฉลี่ย 7 วัน"
+                            stroke="#2563eb"
+                            strokeWidth={2}
+                            dot={false}
+                            connectNulls
+                          />
+                          <ReferenceLine y={calorieGoal} stroke="#dc2626" strokeDasharray="4 4" />
+                        </ComposedChart>
+                      </ResponsiveContainer>
+                    </div>
+                    <p className="text-xs text-muted-foreground text-center mt-2">
+                      เส้นประสีแดง = เป้าหมาย {calorieGoal.toLocaleString()} kcal • แตะที่วันเพื่อดูรายละเอียด
+                    </p>
+                  </CardContent>
+                </Card>
+
+                {/* Macros */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">สารอาหารรายวัน (กรัม)</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={points} onClick={handleChartClick} margin={{ left: -16, right: 8 }}>
+                          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                          <XAxis dataKey="label" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+                          <YAxis tick={{ fontSize: 10 }} />
+                          <Tooltip />
+                          <Legend wrapperStyle={{ fontSize: 12 }} />
+                          <Bar dataKey="protein" name="โปรตีน" stackId="macros" fill="#ea580c" cursor="pointer" />
+                          <Bar dataKey="carb" name="คาร์บ" stackId="macros" fill="#ca8a04" cursor="pointer" />
+                          <Bar dataKey="fat" name="ไขมัน" stackId="macros" fill="#dc2626" cursor="pointer" />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </CardContent>
+                </Card>
+              </>
+            )
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,184 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { DatabaseBackup, Download, Upload, Loader2 } from "lucide-react"
+import {
+  downloadBackup,
+  parseBackup,
+  previewBackup,
+  restoreBackup,
+  type BackupPreview,
+  type RestoreMode,
+  type RestoreReport,
+} from "@/lib/backup"
+import type { BackupFile } from "@/lib/schemas"
+
+export function BackupSettings() {
+  const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null)
+  const [preview, setPreview] = useState<BackupPreview | null>(null)
+  const [mode, setMode] = useState<RestoreMode>("merge")
+  const [report, setReport] = useState<RestoreReport | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleDownload = async () => {
+    try {
+      setIsWorking(true)
+      setError(null)
+      await downloadBackup()
+    } catch (error) {
+      console.error("Backup failed:", error)
+      setError("ไม่สามารถสำรองข้อมูลได้")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    try {
+      setError(null)
+      setReport(null)
+      const backup = parseBackup(await file.text())
+      setPendingBackup(backup)
+      setPreview(previewBackup(backup))
+    } catch (error) {
+      console.error("Failed to read backup:", error)
+      setError(error instanceof Error ? error.message : "ไม่สามารถอ่านไฟล์ได้")
+      setPendingBackup(null)
+      setPreview(null)
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ""
+      }
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!pendingBackup) return
+    if (mode === "replace" && !confirm("ข้อมูลปัจจุบันทั้งหมดจะถูกแทนที่ด้วยข้อมูลจากไฟล์ ต้องการดำเนินการต่อหรือไม่?")) {
+      return
+    }
+
+    try {
+      setIsWorking(true)
+      setError(null)
+      setReport(await restoreBackup(pendingBackup, mode))
+      setPendingBackup(null)
+      setPreview(null)
+    } catch (error) {
+      console.error("Restore failed:", error)
+      setError("กู้คืนข้อมูลไม่สำเร็จ ข้อมูลเดิมยังไม่ถูกเปลี่ยนแปลง")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DatabaseBackup className="h-5 w-5" />
+          สำรองและกู้คืนข้อมูล
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          ข้อมูลทั้งหมดเก็บอยู่ในเบราว์เซอร์นี้เท่านั้น สำรองไว้ก่อนล้างข้อมูลเว็บไซต์หรือเปลี่ยนเครื่อง
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" className="bg-transparent" onClick={handleDownload} disabled={isWorking}>
+            <Download className="h-4 w-4 mr-2" />
+            สำรองข้อมูล
+          </Button>
+          <Button
+            variant="outline"
+            className="bg-transparent"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isWorking}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            กู้คืนข้อมูล
+          </Button>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileSelect}
+          className="hidden"
+        />
+
+        {error && <p className="text-destructive text-sm">{error}</p>}
+
+        {/* Restore Preview */}
+        {preview && (
+          <div className="p-3 bg-secondary rounded-lg space-y-3">
+            <div className="text-sm font-medium">ข้อมูลในไฟล์</div>
+            <div className="text-sm space-y-1">
+              <p>สำรองเมื่อ: {preview.exported_at.toLocaleString("th-TH")}</p>
+              <p>
+                มื้ออาหาร {preview.entries} รายการ
+                {preview.first_date && preview.last_date && ` (${preview.first_date} ถึง ${preview.last_date})`}
+              </p>
+              <p>
+                อาหารของฉัน {preview.foods} รายการ • สูตรอาหาร {preview.recipes} รายการ
+              </p>
+              <p>ข้อมูลส่วนตัว: {preview.has_profile ? "มี" : "ไม่มี"}</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant={mode === "merge" ? "default" : "outline"} size="sm" onClick={() => setMode("merge")}>
+                รวมกับข้อมูลเดิม
+              </Button>
+              <Button variant={mode === "replace" ? "default" : "outline"} size="sm" onClick={() => setMode("replace")}>
+                แทนที่ทั้งหมด
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {mode === "merge"
+                ? "เพิ่มรายการที่ยังไม่มี ข้อมูลเดิมจะไม่ถูกลบ"
+                : "ลบข้อมูลปัจจุบันทั้งหมดแล้วใช้ข้อมูลจากไฟล์แทน"}
+            </p>
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1 bg-transparent"
+                onClick={() => {
+                  setPendingBackup(null)
+                  setPreview(null)
+                }}
+                disabled={isWorking}
+              >
+                ยกเลิก
+              </Button>
+              <Button className="flex-1" onClick={handleRestore} disabled={isWorking}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                กู้คืน
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {report && (
+          <p className="text-emerald-600 text-sm">
+            กู้คืนแล้ว: มื้ออาหาร {report.entries_added} รายการ
+            {report.entries_skipped > 0 && ` (ข้าม ${report.entries_skipped} รายการที่มีอยู่แล้ว)`} • อาหาร{" "}
+            {report.foods} • สูตร {report.recipes}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
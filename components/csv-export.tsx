@@ -0,0 +1,96 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { FileSpreadsheet, Loader2 } from "lucide-react"
+import { exportDailySummaryCsv, exportEntriesCsv } from "@/lib/csv"
+import { addDaysToDateString, getTodayDateString, isValidDateString } from "@/lib/date"
+
+interface CsvExportProps {
+  defaultStart?: string
+  defaultEnd?: string
+}
+
+export function CsvExport({ defaultStart, defaultEnd }: CsvExportProps) {
+  const [start, setStart] = useState(() => defaultStart ?? addDaysToDateString(getTodayDateString(), -29))
+  const [end, setEnd] = useState(() => defaultEnd ?? getTodayDateString())
+  const [exporting, setExporting] = useState<"entries" | "daily" | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async (kind: "entries" | "daily") => {
+    if (!isValidDateString(start) || !isValidDateString(end) || start > end) {
+      setError("ช่วงวันที่ไม่ถูกต้อง")
+      return
+    }
+
+    try {
+      setExporting(kind)
+      setError(null)
+      if (kind === "entries") {
+        await exportEntriesCsv(start, end)
+      } else {
+        await exportDailySummaryCsv(start, end)
+      }
+    } catch (error) {
+      console.error("CSV export failed:", error)
+      setError("ไม่สามารถส่งออกไฟล์ได้")
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="export-start">ตั้งแต่</Label>
+          <Input id="export-start" type="date" value={start} max={end} onChange={(e) => setStart(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="export-end">ถึง</Label>
+          <Input
+            id="export-end"
+            type="date"
+            value={end}
+            min={start}
+            max={getTodayDateString()}
+            onChange={(e) => setEnd(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          variant="outline"
+          className="bg-transparent"
+          onClick={() => handleExport("entries")}
+          disabled={exporting !== null}
+        >
+          {exporting === "entries" ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+          )}
+          รายการอาหาร
+        </Button>
+        <Button
+          variant="outline"
+          className="bg-transparent"
+          onClick={() => handleExport("daily")}
+          disabled={exporting !== null}
+        >
+          {exporting === "daily" ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+          )}
+          สรุปรายวัน
+        </Button>
+      </div>
+    </div>
+  )
+}
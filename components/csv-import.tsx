@@ -0,0 +1,330 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FileUp, Loader2 } from "lucide-react"
+import { detectCsvDelimiter, parseCsv } from "@/lib/csv"
+import {
+  IMPORT_DATE_FORMATS,
+  IMPORT_DECIMAL_SEPARATORS,
+  IMPORT_FIELDS,
+  commitImport,
+  detectImportLayout,
+  getDefaultDecimalSeparator,
+  layoutToMapping,
+  prepareImport,
+  validateImportMapping,
+  type DecimalSeparator,
+  type ImportDateFormat,
+  type ImportField,
+  type ImportMapping,
+  type ImportPreview,
+  type ImportReport,
+} from "@/lib/csv-import"
+
+const UNMAPPED = "none"
+
+export function CsvImport() {
+  const [rows, setRows] = useState<string[][] | null>(null)
+  const [layoutName, setLayoutName] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<ImportMapping | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const headers = rows?.[0] ?? []
+
+  const reset = () => {
+    setRows(null)
+    setLayoutName(null)
+    setMapping(null)
+    setPreview(null)
+  }
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    try {
+      setError(null)
+      setReport(null)
+      reset()
+
+      const text = await file.text()
+      const parsed = parseCsv(text)
+      if (parsed.length < 2) {
+        setError("ไม่พบข้อมูลในไฟล์")
+        return
+      }
+
+      const layout = detectImportLayout(parsed[0])
+      const decimalSeparator = getDefaultDecimalSeparator(detectCsvDelimiter(text))
+      setRows(parsed)
+      setLayoutName(layout?.name ?? null)
+      setMapping(
+        layout
+          ? layoutToMapping(layout, parsed[0], decimalSeparator)
+          : { columns: {}, date_format: "yyyy-MM-dd", decimal_separator: decimalSeparator },
+      )
+    } catch (error) {
+      console.error("Failed to read CSV:", error)
+      setError("ไม่สามารถอ่านไฟล์ได้")
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ""
+      }
+    }
+  }
+
+  const updateColumn = (field: ImportField, value: string) => {
+    if (!mapping) return
+    const columns = { ...mapping.columns }
+    if (value === UNMAPPED) {
+      delete columns[field]
+    } else {
+      columns[field] = Number(value)
+    }
+    setMapping({ ...mapping, columns })
+    setPreview(null)
+  }
+
+  const handlePreview = async () => {
+    if (!rows || !mapping) return
+
+    const mappingError = validateImportMapping(mapping)
+    if (mappingError) {
+      setError(mappingError)
+      return
+    }
+
+    try {
+      setIsWorking(true)
+      setError(null)
+      setPreview(await prepareImport(rows, mapping))
+    } catch (error) {
+      console.error("Failed to prepare import:", error)
+      setError("ไม่สามารถตรวจสอบข้อมูลได้")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!preview) return
+
+    try {
+      setIsWorking(true)
+      setError(null)
+      setReport(await commitImport(preview))
+      reset()
+    } catch (error) {
+      console.error("Import failed:", error)
+      setError("นำเข้าข้อมูลไม่สำเร็จ ข้อมูลเดิมยังไม่ถูกเปลี่ยนแปลง")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileUp className="h-5 w-5" />
+          นำเข้าจากแอปอื่น
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          นำเข้าประวัติจากไฟล์ CSV ของ MyFitnessPal, Lose It!, Cronometer หรือไฟล์อื่นโดยเลือกคอลัมน์เอง
+        </p>
+
+        <Button
+          variant="outline"
+          className="w-full bg-transparent"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isWorking}
+        >
+          <FileUp className="h-4 w-4 mr-2" />
+          เลือกไฟล์ CSV
+        </Button>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="text/csv,.csv"
+          onChange={handleFileSelect}
+          className="hidden"
+        />
+
+        {error && <p className="text-destructive text-sm">{error}</p>}
+
+        {/* Column Mapping */}
+        {rows && mapping && !preview && (
+          <div className="p-3 bg-secondary rounded-lg space-y-3">
+            <div className="text-sm font-medium">
+              {layoutName ? `รูปแบบไฟล์: ${layoutName}` : "ไม่รู้จักรูปแบบไฟล์ กรุณาเลือกคอลัมน์"}
+            </div>
+            <p className="text-xs text-muted-foreground">{rows.length - 1} แถว</p>
+
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field.value} className="grid grid-cols-2 gap-2 items-center">
+                <Label htmlFor={`import-${field.value}`} className="text-sm">
+                  {field.label}
+                  {field.required && " *"}
+                </Label>
+                <Select
+                  value={mapping.columns[field.value]?.toString() ?? UNMAPPED}
+                  onValueChange={(value) => updateColumn(field.value, value)}
+                >
+                  <SelectTrigger id={`import-${field.value}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>ไม่ใช้</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={index.toString()}>
+                        {header || `คอลัมน์ ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            <div className="grid grid-cols-2 gap-2 items-center">
+              <Label htmlFor="import-date-format" className="text-sm">
+                รูปแบบวันที่
+              </Label>
+              <Select
+                value={mapping.date_format}
+                onValueChange={(value) => setMapping({ ...mapping, date_format: value as ImportDateFormat })}
+              >
+                <SelectTrigger id="import-date-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_DATE_FORMATS.map((format) => (
+                    <SelectItem key={format.value} value={format.value}>
+                      {format.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 items-center">
+              <Label htmlFor="import-decimal-separator" className="text-sm">
+                เครื่องหมายทศนิยม
+              </Label>
+              <Select
+                value={mapping.decimal_separator}
+                onValueChange={(value) => {
+                  setMapping({ ...mapping, decimal_separator: value as DecimalSeparator })
+                  setPreview(null)
+                }}
+              >
+                <SelectTrigger id="import-decimal-separator">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_DECIMAL_SEPARATORS.map((separator) => (
+                    <SelectItem key={separator.value} value={separator.value}>
+                      {separator.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1 bg-transparent" onClick={reset} disabled={isWorking}>
+                ยกเลิก
+              </Button>
+              <Button className="flex-1" onClick={handlePreview} disabled={isWorking}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                ตรวจสอบข้อมูล
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Import Preview */}
+        {preview && (
+          <div className="p-3 bg-secondary rounded-lg space-y-3">
+            <div className="text-sm font-medium">ข้อมูลที่จะนำเข้า</div>
+            <div className="text-sm space-y-1">
+              <p>
+                มื้ออาหาร {preview.entries.length} รายการ
+                {preview.first_date && preview.last_date && ` (${preview.first_date} ถึง ${preview.last_date})`}
+              </p>
+              <p>
+                ตรงกับอาหารในแอป {preview.matched_foods} รายการ • สร้างอาหารใหม่ {preview.new_foods.length} รายการ
+              </p>
+              {preview.errors.length > 0 && (
+                <p className="text-destructive">ข้าม {preview.errors.length} แถวที่ข้อมูลไม่ถูกต้อง</p>
+              )}
+            </div>
+
+            {preview.errors.length > 0 && (
+              <div className="text-xs text-muted-foreground space-y-1">
+                {preview.errors.slice(0, 5).map((rowError) => (
+                  <p key={rowError.line}>
+                    แถว {rowError.line}: {rowError.message}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {preview.entries.length > 0 && (
+              <div className="space-y-1">
+                {preview.entries.slice(0, 5).map((entry, index) => (
+                  <div key={index} className="flex justify-between text-xs">
+                    <span className="truncate mr-2">
+                      {entry.date} {entry.time} • {entry.food_name}
+                    </span>
+                    <span className="shrink-0">
+                      {entry.grams}g • {entry.kcal} kcal
+                    </span>
+                  </div>
+                ))}
+                {preview.entries.length > 5 && (
+                  <p className="text-xs text-muted-foreground">และอีก {preview.entries.length - 5} รายการ</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1 bg-transparent"
+                onClick={() => setPreview(null)}
+                disabled={isWorking}
+              >
+                ย้อนกลับ
+              </Button>
+              <Button className="flex-1" onClick={handleImport} disabled={isWorking || preview.entries.length === 0}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                นำเข้า
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {report && (
+          <p className="text-emerald-600 text-sm">
+            นำเข้าแล้ว: มื้ออาหาร {report.entries_added} รายการ
+            {report.entries_skipped > 0 && ` (ข้าม ${report.entries_skipped} รายการที่มีอยู่แล้ว)`} • อาหารใหม่{" "}
+            {report.foods_created}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,6 +4,11 @@ import type React from "react"
 
 import { createContext, useContext, useEffect, useState } from "react"
 import { initializeDatabase } from "@/lib/db"
+import { MigrationError } from "@/lib/migrations"
+import { validateLabelMap } from "@/lib/label-map"
+import { getActiveModelConfig } from "@/lib/model-registry"
+import { checkMLCapability } from "@/lib/ml-capability"
+import { DatabaseRecovery } from "@/components/database-recovery"
 
 interface DatabaseContextType {
   isReady: boolean
@@ -18,14 +23,24 @@ const DatabaseContext = createContext<DatabaseContextType>({
 export function DatabaseProvider({ children }: { children: React.ReactNode }) {
   const [isReady, setIsReady] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [migrationError, setMigrationError] = useState<MigrationError | null>(null)
 
   useEffect(() => {
     async function setupDatabase() {
       try {
         await initializeDatabase()
         setIsReady(true)
+
+        // The classifier only affects photo suggestions, so don't block startup on it
+        checkMLCapability().catch((error) => console.error("ML capability check failed:", error))
+        getActiveModelConfig()
+          .then((config) => config && validateLabelMap(config))
+          .catch((error) => console.error("Label map validation failed:", error))
       } catch (err) {
         console.error("Database initialization failed:", err)
+        if (err instanceof MigrationError) {
+          setMigrationError(err)
+        }
         setError(err instanceof Error ? err.message : "Database initialization failed")
       }
     }
@@ -33,6 +48,10 @@ export function DatabaseProvider({ children }: { children: React.ReactNode }) {
     setupDatabase()
   }, [])
 
+  if (migrationError) {
+    return <DatabaseRecovery error={migrationError} />
+  }
+
   return <DatabaseContext.Provider value={{ isReady, error }}>{children}</DatabaseContext.Provider>
 }
 
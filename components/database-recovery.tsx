@@ -0,0 +1,72 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AlertTriangle, RefreshCw, Trash2, Loader2 } from "lucide-react"
+import { resetDatabase } from "@/lib/db"
+import type { MigrationError } from "@/lib/migrations"
+
+export function DatabaseRecovery({ error }: { error: MigrationError }) {
+  const [isResetting, setIsResetting] = useState(false)
+  const [resetError, setResetError] = useState<string | null>(null)
+
+  const handleRetry = () => {
+    window.location.reload()
+  }
+
+  const handleReset = async () => {
+    if (!confirm("ข้อมูลทั้งหมดในเครื่องจะถูกลบและเริ่มต้นใหม่ ต้องการดำเนินการต่อหรือไม่?")) return
+
+    try {
+      setIsResetting(true)
+      setResetError(null)
+      await resetDatabase()
+      window.location.reload()
+    } catch (err) {
+      console.error("Database reset failed:", err)
+      setResetError("ไม่สามารถล้างฐานข้อมูลได้ กรุณาล้างข้อมูลเว็บไซต์ในการตั้งค่าเบราว์เซอร์")
+      setIsResetting(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md border-destructive">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2 text-destructive">
+            <AlertTriangle className="h-5 w-5" />
+            อัปเดตฐานข้อมูลไม่สำเร็จ
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-sm space-y-2">
+            <p>{error.message}</p>
+            <p className="text-muted-foreground">
+              ข้อมูลเดิมของคุณยังไม่ถูกแก้ไข ลองเปิดแอปใหม่อีกครั้ง หากยังไม่สำเร็จสามารถล้างข้อมูลและเริ่มต้นใหม่ได้
+            </p>
+            <p className="text-xs text-muted-foreground">รหัสเวอร์ชัน: {error.version}</p>
+          </div>
+
+          {resetError && <p className="text-destructive text-sm">{resetError}</p>}
+
+          <div className="flex gap-2">
+            <Button onClick={handleRetry} className="flex-1" disabled={isResetting}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              ลองอีกครั้ง
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleReset}
+              className="flex-1 text-destructive hover:text-destructive bg-transparent"
+              disabled={isResetting}
+            >
+              {isResetting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Trash2 className="h-4 w-4 mr-2" />}
+              ล้างข้อมูล
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Save, Loader2 } from "lucide-react"
+import { customFoodSchema, type CustomFoodInput } from "@/lib/schemas"
+import type { Food } from "@/lib/db"
+
+interface FoodFormProps {
+  initialFood?: Food
+  submitLabel?: string
+  onSubmit: (data: CustomFoodInput) => Promise<void>
+}
+
+type FieldErrors = Partial<Record<keyof CustomFoodInput, string>>
+
+const NUTRIENT_FIELDS = [
+  { key: "kcal_per_100g", label: "แคลอรี่ (kcal)" },
+  { key: "protein", label: "โปรตีน (g)" },
+  { key: "carb", label: "คาร์โบไฮเดรต (g)" },
+  { key: "fat", label: "ไขมัน (g)" },
+  { key: "fiber", label: "ใยอาหาร (g)" },
+] as const
+
+export function FoodForm({ initialFood, submitLabel = "บันทึกอาหาร", onSubmit }: FoodFormProps) {
+  const [values, setValues] = useState({
+    name_th: initialFood?.name_th ?? "",
+    name_en: initialFood?.name_en ?? "",
+    category: initialFood?.category ?? "",
+    kcal_per_100g: initialFood?.kcal_per_100g.toString() ?? "",
+    protein: initialFood?.protein.toString() ?? "",
+    carb: initialFood?.carb.toString() ?? "",
+    fat: initialFood?.fat.toString() ?? "",
+    fiber: initialFood?.fiber.toString() ?? "0",
+    tags: initialFood?.tags.join(", ") ?? "",
+  })
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  const updateValue = (key: keyof typeof values, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const input: CustomFoodInput = {
+      name_th: values.name_th,
+      name_en: values.name_en,
+      category: values.category,
+      kcal_per_100g: Number.parseFloat(values.kcal_per_100g),
+      protein: Number.parseFloat(values.protein),
+      carb: Number.parseFloat(values.carb),
+      fat: Number.parseFloat(values.fat),
+      fiber: Number.parseFloat(values.fiber),
+      tags: values.tags
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    }
+
+    const result = customFoodSchema.safeParse(input)
+    if (!result.success) {
+      const errors: FieldErrors = {}
+      for (const issue of result.error.issues) {
+        const key = issue.path[0] as keyof CustomFoodInput
+        if (!errors[key]) errors[key] = issue.message
+      }
+      setFieldErrors(errors)
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setFieldErrors({})
+      await onSubmit(input)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="name_th">ชื่ออาหาร (ไทย)</Label>
+        <Input id="name_th" value={values.name_th} onChange={(e) => updateValue("name_th", e.target.value)} />
+        {fieldErrors.name_th && <p className="text-destructive text-xs">{fieldErrors.name_th}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="name_en">ชื่ออาหาร (อังกฤษ)</Label>
+        <Input id="name_en" value={values.name_en} onChange={(e) => updateValue("name_en", e.target.value)} />
+        {fieldErrors.name_en && <p className="text-destructive text-xs">{fieldErrors.name_en}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="category">หมวดหมู่</Label>
+        <Input
+          id="category"
+          value={values.category}
+          onChange={(e) => updateValue("category", e.target.value)}
+          placeholder="เช่น อาหารจานเดียว"
+        />
+        {fieldErrors.category && <p className="text-destructive text-xs">{fieldErrors.category}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium">ค่าโภชนาการต่อ 100 กรัม</div>
+        <div className="grid grid-cols-2 gap-4">
+          {NUTRIENT_FIELDS.map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={key}>{label}</Label>
+              <Input
+                id={key}
+                type="number"
+                inputMode="decimal"
+                step="0.1"
+                min="0"
+                value={values[key]}
+                onChange={(e) => updateValue(key, e.target.value)}
+              />
+              {fieldErrors[key] && <p className="text-destructive text-xs">{fieldErrors[key]}</p>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tags">แท็ก (คั่นด้วยจุลภาค)</Label>
+        <Input
+          id="tags"
+          value={values.tags}
+          onChange={(e) => updateValue("tags", e.target.value)}
+          placeholder="เช่น ไก่, ทอด"
+        />
+        {fieldErrors.tags && <p className="text-destructive text-xs">{fieldErrors.tags}</p>}
+      </div>
+
+      <Button type="submit" className="w-full" size="lg" disabled={isSaving}>
+        {isSaving ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            กำลังบันทึก...
+          </>
+        ) : (
+          <>
+            <Save className="h-4 w-4 mr-2" />
+            {submitLabel}
+          </>
+        )}
+      </Button>
+    </form>
+  )
+}
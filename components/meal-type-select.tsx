@@ -0,0 +1,32 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { MEAL_TYPES } from "@/lib/meal-type"
+import type { MealType } from "@/lib/db"
+
+interface MealTypeSelectProps {
+  value: MealType
+  onChange: (value: MealType) => void
+  id?: string
+}
+
+export function MealTypeSelect({ value, onChange, id = "meal_type" }: MealTypeSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>มื้อ</Label>
+      <Select value={value} onValueChange={(next) => onChange(next as MealType)}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {MEAL_TYPES.map((type) => (
+            <SelectItem key={type.value} value={type.value}>
+              {type.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
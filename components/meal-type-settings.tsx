@@ -0,0 +1,111 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Clock, Save, Loader2 } from "lucide-react"
+import { getMealTypeBoundaries, saveMealTypeBoundaries } from "@/lib/db"
+import {
+  DEFAULT_MEAL_TYPE_BOUNDARIES,
+  MEAL_TYPES,
+  validateMealTypeBoundaries,
+  type MealTypeBoundaries,
+} from "@/lib/meal-type"
+import { useDatabase } from "@/components/database-provider"
+
+export function MealTypeSettings() {
+  const [boundaries, setBoundaries] = useState<MealTypeBoundaries>(DEFAULT_MEAL_TYPE_BOUNDARIES)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: "error" | "success"; text: string } | null>(null)
+  const { isReady } = useDatabase()
+
+  useEffect(() => {
+    if (isReady) {
+      getMealTypeBoundaries()
+        .then(setBoundaries)
+        .catch((error) => console.error("Failed to load meal type boundaries:", error))
+    }
+  }, [isReady])
+
+  const updateBoundary = (mealType: keyof MealTypeBoundaries, field: "start" | "end", value: string) => {
+    setBoundaries((prev) => ({ ...prev, [mealType]: { ...prev[mealType], [field]: value } }))
+    setMessage(null)
+  }
+
+  const handleSave = async () => {
+    const validationError = validateMealTypeBoundaries(boundaries)
+    if (validationError) {
+      setMessage({ type: "error", text: validationError })
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      await saveMealTypeBoundaries(boundaries)
+      setMessage({ type: "success", text: "บันทึกช่วงเวลาแล้ว" })
+    } catch (error) {
+      console.error("Failed to save meal type boundaries:", error)
+      setMessage({ type: "error", text: "ไม่สามารถบันทึกช่วงเวลาได้" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          ช่วงเวลามื้ออาหาร
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">ใช้เลือกมื้ออัตโนมัติตามเวลาที่บันทึก นอกช่วงเวลาเหล่านี้จะนับเป็นของว่าง</p>
+
+        {MEAL_TYPES.filter((type) => type.value !== "snack").map(({ value, label }) => {
+          const mealType = value as keyof MealTypeBoundaries
+          return (
+            <div key={value} className="grid grid-cols-[1fr_auto_auto] items-end gap-2">
+              <div className="text-sm font-medium pb-2">{label}</div>
+              <div className="space-y-1">
+                <Label htmlFor={`${value}-start`} className="text-xs text-muted-foreground">
+                  เริ่ม
+                </Label>
+                <Input
+                  id={`${value}-start`}
+                  type="time"
+                  value={boundaries[mealType].start}
+                  onChange={(e) => updateBoundary(mealType, "start", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${value}-end`} className="text-xs text-muted-foreground">
+                  สิ้นสุด
+                </Label>
+                <Input
+                  id={`${value}-end`}
+                  type="time"
+                  value={boundaries[mealType].end}
+                  onChange={(e) => updateBoundary(mealType, "end", e.target.value)}
+                />
+              </div>
+            </div>
+          )
+        })}
+
+        {message && (
+          <p className={message.type === "error" ? "text-destructive text-sm" : "text-emerald-600 text-sm"}>
+            {message.text}
+          </p>
+        )}
+
+        <Button variant="outline" onClick={handleSave} className="w-full bg-transparent" disabled={isSaving}>
+          {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          บันทึกช่วงเวลา
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
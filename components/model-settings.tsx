@@ -0,0 +1,312 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Brain, Download, Trash2, Check, Loader2, RotateCcw, Zap, Target } from "lucide-react"
+import {
+  deleteModel,
+  downloadModel,
+  getActiveModelRef,
+  getInputSize,
+  getInstalledModels,
+  getModelManifest,
+  isSameModel,
+  setActiveModel,
+  type InstalledModel,
+  type ModelRef,
+} from "@/lib/model-registry"
+import { disposeMLSession, retryMLSetup, type InferenceProgress } from "@/lib/session"
+import { getMLStatus, type MLStatus } from "@/lib/ml-capability"
+import { clearPersonalExamples, countPersonalExamples } from "@/lib/personalization"
+import {
+  ACCURATE_PASSES,
+  CAPTURE_FRAMES,
+  getAccuracyMode,
+  getClassifierLatency,
+  setAccuracyMode,
+  type AccuracyMode,
+  type ClassifierLatency,
+} from "@/lib/accuracy-mode"
+import type { ModelEntry } from "@/lib/schemas"
+import { cn } from "@/lib/utils"
+
+function formatSize(bytes: number) {
+  return bytes > 0 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : "ไม่ทราบขนาด"
+}
+
+function formatLatency(milliseconds: number) {
+  return milliseconds >= 1000 ? `${(milliseconds / 1000).toFixed(1)} วินาที` : `${Math.round(milliseconds)} ms`
+}
+
+// Measured on this device once used; accuracy mode is estimated from fast mode until then
+function describeLatency(mode: AccuracyMode, latency: ClassifierLatency) {
+  const measured = latency[mode]
+  if (measured !== undefined) return `ประมาณ ${formatLatency(measured)} ต่อรูป`
+  if (mode === "accurate" && latency.fast !== undefined) {
+    return `คาดว่า ${formatLatency(latency.fast * ACCURATE_PASSES)} ต่อรูป`
+  }
+  return "ยังไม่ได้วัดบนเครื่องนี้"
+}
+
+const ACCURACY_MODES: { mode: AccuracyMode; label: string; description: string; icon: typeof Zap }[] = [
+  { mode: "fast", label: "เร็ว", description: "วิเคราะห์รูปครั้งเดียว", icon: Zap },
+  {
+    mode: "accurate",
+    label: "แม่นยำ",
+    description: `วิเคราะห์หลายมุมของรูป หรือ ${CAPTURE_FRAMES} เฟรมจากกล้องแล้วโหวต`,
+    icon: Target,
+  },
+]
+
+export function ModelSettings() {
+  const [available, setAvailable] = useState<ModelEntry[]>([])
+  const [installed, setInstalled] = useState<InstalledModel[]>([])
+  const [active, setActive] = useState<ModelRef | null>(null)
+  const [downloading, setDownloading] = useState<{ ref: ModelRef; progress: number } | null>(null)
+  const [status, setStatus] = useState<MLStatus | null>(null)
+  const [retryProgress, setRetryProgress] = useState<InferenceProgress | null>(null)
+  const [exampleCount, setExampleCount] = useState(0)
+  const [accuracyMode, setMode] = useState<AccuracyMode>("fast")
+  const [latency, setLatency] = useState<ClassifierLatency>({})
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadModels = useCallback(async () => {
+    const [installedModels, activeModel, mlStatus, examples, mode, classifierLatency] = await Promise.all([
+      getInstalledModels(),
+      getActiveModelRef(),
+      getMLStatus(),
+      countPersonalExamples(),
+      getAccuracyMode(),
+      getClassifierLatency(),
+    ])
+    setInstalled(installedModels)
+    setActive(activeModel)
+    setStatus(mlStatus)
+    setExampleCount(examples)
+    setMode(mode)
+    setLatency(classifierLatency)
+
+    try {
+      setAvailable((await getModelManifest()).models)
+    } catch (error) {
+      // Offline: installed models can still be switched and deleted
+      console.error("Failed to load model manifest:", error)
+      setAvailable([])
+    }
+  }, [])
+
+  useEffect(() => {
+    loadModels().catch((error) => {
+      console.error("Failed to load models:", error)
+      setError("ไม่สามารถโหลดข้อมูลโมเดลได้")
+    })
+  }, [loadModels])
+
+  // Manifest models first, then installed versions the manifest no longer lists
+  const models: ModelEntry[] = [
+    ...available,
+    ...installed
+      .map((model) => model.entry)
+      .filter((entry) => !available.some((candidate) => isSameModel(candidate, entry))),
+  ]
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setIsWorking(true)
+      setError(null)
+      await action()
+      await loadModels()
+    } catch (error) {
+      console.error(failure, error)
+      setError(error instanceof Error ? error.message : failure)
+    } finally {
+      setIsWorking(false)
+      setDownloading(null)
+      setRetryProgress(null)
+    }
+  }
+
+  const handleRetry = () =>
+    runAction(async () => {
+      const result = await retryMLSetup({ onProgress: setRetryProgress })
+      if (!result.available) throw new Error(result.reason ?? "ไม่สามารถโหลดโมเดล AI ได้")
+    }, "ไม่สามารถโหลดโมเดล AI ได้")
+
+  const handleDownload = (entry: ModelEntry) =>
+    runAction(async () => {
+      setDownloading({ ref: entry, progress: 0 })
+      await downloadModel(entry, {
+        onProgress: (progress) => setDownloading({ ref: entry, progress }),
+      })
+    }, "ดาวน์โหลดโมเดลไม่สำเร็จ")
+
+  const handleActivate = (entry: ModelEntry) =>
+    runAction(async () => {
+      await setActiveModel(entry)
+      // The next classification starts a fresh session with the new model
+      await disposeMLSession()
+    }, "เปลี่ยนโมเดลไม่สำเร็จ")
+
+  const handleDelete = (entry: ModelEntry) => {
+    if (!confirm(`ลบโมเดล ${entry.name} v${entry.version} ออกจากเครื่อง?`)) return
+    runAction(() => deleteModel(entry), "ลบโมเดลไม่สำเร็จ")
+  }
+
+  const handleModeChange = (mode: AccuracyMode) =>
+    runAction(() => setAccuracyMode(mode), "เปลี่ยนโหมดการวิเคราะห์ไม่สำเร็จ")
+
+  const handleClearExamples = () => {
+    if (!confirm("ล้างข้อมูลที่ AI เรียนรู้จากการบันทึกของคุณ?")) return
+    runAction(clearPersonalExamples, "ล้างข้อมูลการเรียนรู้ไม่สำเร็จ")
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Brain className="h-5 w-5" />
+          โมเดล AI
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          โมเดลจะถูกดาวน์โหลดและเก็บไว้ในเครื่องเพื่อใช้งานออฟไลน์
+        </p>
+
+        {/* Classifier Status */}
+        {status && !status.available && (
+          <div className="p-3 border border-destructive rounded-lg space-y-2">
+            <p className="text-sm">
+              AI ไม่พร้อมใช้งาน: {status.reason} ตอนนี้บันทึกจากรูปได้โดยเลือกอาหารเอง
+            </p>
+            {retryProgress && <Progress value={retryProgress.progress * 100} className="h-2" />}
+            <Button size="sm" variant="outline" className="bg-transparent" onClick={handleRetry} disabled={isWorking}>
+              {retryProgress ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RotateCcw className="h-4 w-4 mr-2" />
+              )}
+              ลองใหม่
+            </Button>
+          </div>
+        )}
+
+        {models.length === 0 && <p className="text-sm text-muted-foreground">ไม่พบโมเดล</p>}
+
+        {models.map((entry) => {
+          const isInstalled = installed.some((model) => isSameModel(model.entry, entry))
+          const isActive = active !== null && isSameModel(active, entry)
+          const isDownloading = downloading !== null && isSameModel(downloading.ref, entry)
+
+          return (
+            <div key={`${entry.id}@${entry.version}`} className="p-3 bg-secondary rounded-lg space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">{entry.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    v{entry.version} • {formatSize(entry.size)} • {getInputSize(entry)}×{getInputSize(entry)}
+                  </div>
+                </div>
+                {isActive && (
+                  <span className="flex items-center text-xs text-emerald-600 shrink-0">
+                    <Check className="h-3 w-3 mr-1" />
+                    ใช้งานอยู่
+                  </span>
+                )}
+              </div>
+
+              {isDownloading && <Progress value={downloading.progress * 100} className="h-2" />}
+
+              <div className="flex gap-2">
+                {!isInstalled && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="bg-transparent"
+                    onClick={() => handleDownload(entry)}
+                    disabled={isWorking}
+                  >
+                    {isDownloading ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Download className="h-4 w-4 mr-2" />
+                    )}
+                    ดาวน์โหลด
+                  </Button>
+                )}
+                {isInstalled && !isActive && (
+                  <>
+                    <Button size="sm" onClick={() => handleActivate(entry)} disabled={isWorking}>
+                      ใช้โมเดลนี้
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(entry)}
+                      disabled={isWorking}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      ลบ
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          )
+        })}
+
+        {/* Accuracy Mode */}
+        <div className="space-y-2">
+          <div className="text-sm font-medium">โหมดการวิเคราะห์</div>
+          <div className="grid grid-cols-2 gap-2">
+            {ACCURACY_MODES.map(({ mode, label, description, icon: Icon }) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => handleModeChange(mode)}
+                disabled={isWorking}
+                className={cn(
+                  "p-3 rounded-lg border text-left space-y-1 transition-colors",
+                  accuracyMode === mode ? "border-primary bg-primary/10" : "border-border bg-secondary",
+                )}
+              >
+                <div className="flex items-center gap-1 text-sm font-medium">
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </div>
+                <div className="text-xs text-muted-foreground">{description}</div>
+                <div className="text-xs">{describeLatency(mode, latency)}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Personalization */}
+        <div className="flex items-center justify-between gap-2 p-3 bg-secondary rounded-lg">
+          <div className="min-w-0">
+            <div className="text-sm font-medium">การเรียนรู้ส่วนตัว</div>
+            <div className="text-xs text-muted-foreground">
+              จำจากรูปที่บันทึกแล้ว {exampleCount} รูป เก็บไว้ในเครื่องเท่านั้น
+            </div>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-destructive hover:text-destructive shrink-0"
+            onClick={handleClearExamples}
+            disabled={isWorking || exampleCount === 0}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            ล้าง
+          </Button>
+        </div>
+
+        {error && <p className="text-destructive text-sm">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
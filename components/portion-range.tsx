@@ -0,0 +1,43 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { PORTION_REFERENCES } from "@/lib/portion"
+import type { PortionEstimate } from "@/lib/db"
+
+interface PortionRangeProps {
+  estimate: PortionEstimate
+  grams: number // currently entered, to highlight a matching option
+  onPick: (grams: number) => void
+}
+
+// Suggested portion as small / usual / large shortcuts for the grams field
+export function PortionRange({ estimate, grams, onPick }: PortionRangeProps) {
+  const options = [
+    { label: "น้อย", grams: estimate.min },
+    { label: "ปกติ", grams: estimate.grams },
+    { label: "มาก", grams: estimate.max },
+  ]
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">
+        ประมาณ {estimate.min}–{estimate.max} กรัม (
+        {estimate.reference ? `เทียบกับ${PORTION_REFERENCES[estimate.reference].label}` : "ขนาดทั่วไป"})
+      </p>
+      <div className="flex gap-1">
+        {options.map((option) => (
+          <Button
+            key={option.label}
+            type="button"
+            size="sm"
+            variant={grams === option.grams ? "default" : "outline"}
+            className="h-auto py-1 text-xs"
+            onClick={() => onPick(option.grams)}
+          >
+            {option.label} {option.grams} g
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,250 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Save, Loader2, Trash2 } from "lucide-react"
+import { searchFoods, calculateRecipeNutrition, type Food, type Recipe } from "@/lib/db"
+import { recipeSchema, type RecipeInput } from "@/lib/schemas"
+
+interface RecipeFormProps {
+  initialRecipe?: Recipe
+  initialIngredients?: { food: Food; grams: number }[]
+  submitLabel?: string
+  onSubmit: (data: RecipeInput) => Promise<void>
+}
+
+interface IngredientRow {
+  food: Food
+  grams: string
+}
+
+export function RecipeForm({
+  initialRecipe,
+  initialIngredients = [],
+  submitLabel = "บันทึกสูตรอาหาร",
+  onSubmit,
+}: RecipeFormProps) {
+  const [nameTh, setNameTh] = useState(initialRecipe?.name_th ?? "")
+  const [nameEn, setNameEn] = useState(initialRecipe?.name_en ?? "")
+  const [category, setCategory] = useState(initialRecipe?.category ?? "เมนูทำเอง")
+  const [cookedWeight, setCookedWeight] = useState(initialRecipe?.cooked_weight.toString() ?? "")
+  const [ingredients, setIngredients] = useState<IngredientRow[]>(
+    initialIngredients.map(({ food, grams }) => ({ food, grams: grams.toString() })),
+  )
+  const [searchQuery, setSearchQuery] = useState("")
+  const [searchResults, setSearchResults] = useState<Food[]>([])
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSearch = useCallback(
+    async (query: string) => {
+      if (!query.trim()) {
+        setSearchResults([])
+        return
+      }
+
+      try {
+        const foods = await searchFoods(query, 10)
+        // A recipe can't contain itself
+        setSearchResults(foods.filter((food) => food.id !== initialRecipe?.id))
+      } catch (error) {
+        console.error("Search error:", error)
+      }
+    },
+    [initialRecipe?.id],
+  )
+
+  const addIngredient = (food: Food) => {
+    setIngredients((prev) => [...prev, { food, grams: "100" }])
+    setSearchQuery("")
+    setSearchResults([])
+  }
+
+  const updateIngredientGrams = (index: number, grams: string) => {
+    setIngredients((prev) => prev.map((row, i) => (i === index ? { ...row, grams } : row)))
+  }
+
+  const removeIngredient = (index: number) => {
+    setIngredients((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  const rawWeight = ingredients.reduce((sum, row) => sum + (Number.parseFloat(row.grams) || 0), 0)
+  const cookedWeightNum = Number.parseFloat(cookedWeight) || 0
+  const nutritionPreview =
+    ingredients.length > 0 && cookedWeightNum > 0
+      ? calculateRecipeNutrition(
+          ingredients.map((row) => ({ food: row.food, grams: Number.parseFloat(row.grams) || 0 })),
+          cookedWeightNum,
+        )
+      : null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const input: RecipeInput = {
+      name_th: nameTh,
+      name_en: nameEn,
+      category,
+      ingredients: ingredients.map((row) => ({ food_id: row.food.id, grams: Number.parseFloat(row.grams) })),
+      cooked_weight: Number.parseFloat(cookedWeight),
+    }
+
+    const result = recipeSchema.safeParse(input)
+    if (!result.success) {
+      setFormError(result.error.issues[0]?.message ?? "ข้อมูลไม่ถูกต้อง")
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setFormError(null)
+      await onSubmit(input)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="name_th">ชื่อเมนู (ไทย)</Label>
+        <Input id="name_th" value={nameTh} onChange={(e) => setNameTh(e.target.value)} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="name_en">ชื่อเมนู (อังกฤษ)</Label>
+          <Input id="name_en" value={nameEn} onChange={(e) => setNameEn(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="category">หมวดหมู่</Label>
+          <Input id="category" value={category} onChange={(e) => setCategory(e.target.value)} />
+        </div>
+      </div>
+
+      {/* Ingredients */}
+      <div className="space-y-2">
+        <div className="text-sm font-medium">วัตถุดิบ (น้ำหนักก่อนปรุง)</div>
+
+        {ingredients.map((row, index) => (
+          <div key={`${row.food.id}-${index}`} className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium truncate">{row.food.name_th}</div>
+              <div className="text-xs text-muted-foreground">{row.food.kcal_per_100g} kcal/100g</div>
+            </div>
+            <Input
+              type="number"
+              inputMode="decimal"
+              className="w-24"
+              value={row.grams}
+              onChange={(e) => updateIngredientGrams(index, e.target.value)}
+              min="1"
+              aria-label={`น้ำหนัก ${row.food.name_th} (กรัม)`}
+            />
+            <span className="text-xs text-muted-foreground">g</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeIngredient(index)}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <Input
+          placeholder="ค้นหาวัตถุดิบเพื่อเพิ่ม..."
+          value={searchQuery}
+          onChange={(e) => {
+            setSearchQuery(e.target.value)
+            handleSearch(e.target.value)
+          }}
+        />
+
+        {searchResults.length > 0 && (
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {searchResults.map((food) => (
+              <Button
+                key={food.id}
+                type="button"
+                variant="outline"
+                className="w-full justify-start h-auto p-3 bg-transparent"
+                onClick={() => addIngredient(food)}
+              >
+                <div className="text-left">
+                  <div className="font-medium">{food.name_th}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {food.kcal_per_100g} kcal/100g • {food.category}
+                  </div>
+                </div>
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="cooked_weight">น้ำหนักรวมหลังปรุง (กรัม)</Label>
+        <Input
+          id="cooked_weight"
+          type="number"
+          inputMode="decimal"
+          value={cookedWeight}
+          onChange={(e) => setCookedWeight(e.target.value)}
+          placeholder={rawWeight > 0 ? rawWeight.toString() : ""}
+          min="1"
+        />
+        {rawWeight > 0 && (
+          <p className="text-xs text-muted-foreground">น้ำหนักวัตถุดิบรวม {rawWeight} กรัม</p>
+        )}
+      </div>
+
+      {/* Nutrition Preview */}
+      {nutritionPreview && (
+        <div className="p-3 bg-secondary rounded-lg">
+          <div className="text-sm font-medium mb-2">ค่าโภชนาการต่อ 100 กรัม:</div>
+          <div className="grid grid-cols-4 gap-2 text-xs">
+            <div className="text-center">
+              <div className="font-bold text-emerald-600">{nutritionPreview.kcal_per_100g}</div>
+              <div className="text-muted-foreground">kcal</div>
+            </div>
+            <div className="text-center">
+              <div className="font-bold text-orange-600">{nutritionPreview.protein}g</div>
+              <div className="text-muted-foreground">โปรตีน</div>
+            </div>
+            <div className="text-center">
+              <div className="font-bold text-yellow-600">{nutritionPreview.carb}g</div>
+              <div className="text-muted-foreground">คาร์บ</div>
+            </div>
+            <div className="text-center">
+              <div className="font-bold text-red-600">{nutritionPreview.fat}g</div>
+              <div className="text-muted-foreground">ไขมัน</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {formError && <p className="text-destructive text-sm">{formError}</p>}
+
+      <Button type="submit" className="w-full" size="lg" disabled={isSaving}>
+        {isSaving ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            กำลังบันทึก...
+          </>
+        ) : (
+          <>
+            <Save className="h-4 w-4 mr-2" />
+            {submitLabel}
+          </>
+        )}
+      </Button>
+    </form>
+  )
+}
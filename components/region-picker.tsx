@@ -0,0 +1,152 @@
+"use client"
+
+import { useRef, useState, type PointerEvent } from "react"
+import { cn } from "@/lib/utils"
+import type { Region } from "@/lib/preprocess"
+
+// Boxes smaller than this (as a fraction of each side) are treated as stray taps
+const MIN_REGION_SIZE = 0.05
+
+interface RegionPickerProps {
+  src: string
+  regions: Region[]
+  activeIndex: number | null
+  onSelect: (index: number) => void
+  onDraw: (region: Region) => void
+  reference?: Region | null // object of known size used to estimate portions
+  onImageLoad?: (size: { width: number; height: number }) => void
+  disabled?: boolean
+}
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value))
+}
+
+function toRegion(start: { x: number; y: number }, end: { x: number; y: number }): Region {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  }
+}
+
+function regionStyle(region: Region) {
+  return {
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+  }
+}
+
+/**
+ * Photo with numbered boxes, one per dish. Dragging on the photo draws a new
+ * box; tapping a box selects it. Coordinates are fractions of the photo, so
+ * they map straight onto the full-resolution pixels sent for classification.
+ */
+export function RegionPicker({
+  src,
+  regions,
+  activeIndex,
+  onSelect,
+  onDraw,
+  reference = null,
+  onImageLoad,
+  disabled = false,
+}: RegionPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null)
+  const [draft, setDraft] = useState<Region | null>(null)
+
+  const toPoint = (event: PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect()
+    return {
+      x: clamp01((event.clientX - rect.left) / rect.width),
+      y: clamp01((event.clientY - rect.top) / rect.height),
+    }
+  }
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (disabled) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setStart(toPoint(event))
+    setDraft(null)
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (start) setDraft(toRegion(start, toPoint(event)))
+  }
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (!start) return
+    const region = toRegion(start, toPoint(event))
+    setStart(null)
+    setDraft(null)
+    if (region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+      onDraw(region)
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative touch-none select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        setStart(null)
+        setDraft(null)
+      }}
+    >
+      <img
+        src={src}
+        alt="Food to analyze"
+        className="w-full h-auto rounded-lg"
+        draggable={false}
+        onLoad={(event) =>
+          onImageLoad?.({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight })
+        }
+      />
+
+      {reference && (
+        <div
+          className="absolute border-2 border-dashed border-amber-400 rounded-md pointer-events-none"
+          style={regionStyle(reference)}
+        >
+          <span className="absolute -top-0.5 -left-0.5 px-1.5 text-xs font-semibold rounded-br-md bg-amber-400 text-black">
+            อ้างอิง
+          </span>
+        </div>
+      )}
+
+      {regions.map((region, index) => (
+        <button
+          key={index}
+          type="button"
+          className={cn(
+            "absolute border-2 rounded-md",
+            index === activeIndex ? "border-primary bg-primary/10" : "border-white/90",
+          )}
+          style={regionStyle(region)}
+          onPointerDown={(event) => event.stopPropagation()}
+          onClick={() => onSelect(index)}
+        >
+          <span
+            className={cn(
+              "absolute -top-0.5 -left-0.5 px-1.5 text-xs font-semibold rounded-br-md",
+              index === activeIndex ? "bg-primary text-primary-foreground" : "bg-white text-black",
+            )}
+          >
+            {index + 1}
+          </span>
+        </button>
+      ))}
+
+      {draft && (
+        <div className="absolute border-2 border-dashed border-primary rounded-md" style={regionStyle(draft)} />
+      )}
+    </div>
+  )
+}
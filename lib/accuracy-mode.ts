@@ -0,0 +1,38 @@
+import { ACCURACY_MODE_KEY, CLASSIFIER_LATENCY_KEY, getSetting, setSetting } from "@/lib/db"
+import { AUGMENTED_VIEWS } from "@/lib/preprocess"
+
+// fast: one pass over the photo; accurate: average several views of an upload,
+// or vote across a few frames of the live camera
+export type AccuracyMode = "fast" | "accurate"
+
+// Milliseconds per photo, measured on this device; absent until the mode has been used
+export type ClassifierLatency = Partial<Record<AccuracyMode, number>>
+
+// Frames /capture takes from the video stream in accuracy mode, and the gap between them
+export const CAPTURE_FRAMES = 3
+export const FRAME_INTERVAL_MS = 150
+
+// Rough slowdown of accuracy mode, for settings before it has been measured
+export const ACCURATE_PASSES = Math.max(AUGMENTED_VIEWS.length, CAPTURE_FRAMES)
+
+// Weight of the newest measurement in the moving average
+const LATENCY_SMOOTHING = 0.3
+
+export async function getAccuracyMode(): Promise<AccuracyMode> {
+  return (await getSetting<AccuracyMode>(ACCURACY_MODE_KEY)) ?? "fast"
+}
+
+export async function setAccuracyMode(mode: AccuracyMode): Promise<void> {
+  await setSetting(ACCURACY_MODE_KEY, mode)
+}
+
+export async function getClassifierLatency(): Promise<ClassifierLatency> {
+  return (await getSetting<ClassifierLatency>(CLASSIFIER_LATENCY_KEY)) ?? {}
+}
+
+export async function recordClassifierLatency(mode: AccuracyMode, milliseconds: number): Promise<void> {
+  const latency = await getClassifierLatency()
+  const previous = latency[mode]
+  latency[mode] = previous === undefined ? milliseconds : previous + LATENCY_SMOOTHING * (milliseconds - previous)
+  await setSetting(CLASSIFIER_LATENCY_KEY, latency)
+}
@@ -0,0 +1,206 @@
+import type { ZodType } from "zod"
+import db, { DEVICE_SETTING_KEYS, MEAL_TYPE_BOUNDARIES_KEY, type AppSetting, type Food, type MealEntry } from "@/lib/db"
+import { LATEST_SCHEMA_VERSION } from "@/lib/migrations"
+import { backupSchema, mealTypeBoundariesSchema, type BackupFile } from "@/lib/schemas"
+import { getTodayDateString } from "@/lib/date"
+
+export type RestoreMode = "merge" | "replace"
+
+export interface BackupPreview {
+  exported_at: Date
+  schema_version: number
+  foods: number
+  recipes: number
+  entries: number
+  has_profile: boolean
+  settings: number
+  first_date: string | null
+  last_date: string | null
+}
+
+export interface RestoreReport {
+  mode: RestoreMode
+  foods: number
+  recipes: number
+  entries_added: number
+  entries_skipped: number
+  profile_restored: boolean
+  settings: number
+}
+
+/**
+ * Snapshot of everything the user created. Seed foods are left out because the
+ * catalog updater reinstalls them; entries keep their own nutrition snapshot.
+ * Entry photos and personal examples (lib/personalization.ts) stay on the
+ * device to keep the file small.
+ */
+export async function createBackup(): Promise<BackupFile> {
+  const [foods, recipes, entries, profile, settings] = await Promise.all([
+    db.foods.filter((food) => food.source !== "seed").toArray(),
+    db.recipes.toArray(),
+    db.entries.toArray(),
+    db.profile.orderBy("updated_at").last(),
+    db.settings.filter((setting) => !DEVICE_SETTING_KEYS.includes(setting.key)).toArray(),
+  ])
+
+  // Auto-increment ids are meaningless on another device
+  const profileData = profile ? { ...profile } : null
+  delete profileData?.id
+
+  return {
+    format: "calkal-backup",
+    version: 1,
+    schema_version: LATEST_SCHEMA_VERSION,
+    exported_at: new Date(),
+    data: {
+      foods,
+      recipes,
+      entries,
+      profile: profileData,
+      settings,
+    },
+  }
+}
+
+export async function downloadBackup(): Promise<void> {
+  const backup = await createBackup()
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `calkal-backup-${getTodayDateString()}.json`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+export function parseBackup(text: string): BackupFile {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error("ไฟล์สำรองข้อมูลไม่ใช่ JSON ที่ถูกต้อง")
+  }
+
+  const result = backupSchema.safeParse(json)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    console.error("Invalid backup file:", result.error)
+    throw new Error(`ไฟล์สำรองข้อมูลไม่ถูกต้อง (${issue?.path.join(".") || "format"})`)
+  }
+
+  if (result.data.schema_version > LATEST_SCHEMA_VERSION) {
+    throw new Error("ไฟล์สำรองข้อมูลมาจากแอปเวอร์ชันที่ใหม่กว่า กรุณาอัปเดตแอปก่อน")
+  }
+
+  return result.data
+}
+
+export function previewBackup(backup: BackupFile): BackupPreview {
+  const dates = backup.data.entries.map((entry) => entry.date).sort()
+
+  return {
+    exported_at: backup.exported_at,
+    schema_version: backup.schema_version,
+    foods: backup.data.foods.length,
+    recipes: backup.data.recipes.length,
+    entries: backup.data.entries.length,
+    has_profile: backup.data.profile !== null,
+    settings: backup.data.settings.length,
+    first_date: dates[0] ?? null,
+    last_date: dates[dates.length - 1] ?? null,
+  }
+}
+
+// Settings a backup may restore. Anything else (device settings, keys from other
+// app versions) is ignored, so a hand-edited file can't plant arbitrary values.
+const RESTORABLE_SETTINGS: Record<string, ZodType> = {
+  [MEAL_TYPE_BOUNDARIES_KEY]: mealTypeBoundariesSchema,
+}
+
+function toRestorableSetting({ key, value, updated_at }: BackupFile["data"]["settings"][number]): AppSetting | null {
+  const schema = Object.hasOwn(RESTORABLE_SETTINGS, key) ? RESTORABLE_SETTINGS[key] : undefined
+  if (!schema) return null
+
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    console.warn(`Skipping invalid setting "${key}" in backup:`, result.error)
+    return null
+  }
+  return { key, value: result.data, updated_at }
+}
+
+function entryFingerprint(entry: MealEntry) {
+  return [entry.date, entry.time, entry.food_id, entry.grams, new Date(entry.created_at).getTime()].join("|")
+}
+
+/**
+ * Restore a validated backup in one transaction. Entry ids are never reused:
+ * `entries` is an auto-increment table, so every restored entry gets a fresh id.
+ * Merge keeps local data: foods and recipes whose id already exists keep the
+ * local copy, and entries that already exist are skipped. Replace wipes user
+ * data first (seed foods stay), including personal examples, whose foods may
+ * not be in the backup.
+ */
+export async function restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<RestoreReport> {
+  const { foods, recipes, entries, profile, settings } = backup.data
+
+  const tables = [db.foods, db.recipes, db.entries, db.photos, db.examples, db.profile, db.settings]
+
+  return await db.transaction("rw", tables, async () => {
+    if (mode === "replace") {
+      await db.foods.filter((food) => food.source !== "seed").delete()
+      await db.recipes.clear()
+      await db.entries.clear()
+      await db.photos.clear()
+      await db.examples.clear()
+      await db.profile.clear()
+      await db.settings.filter((setting) => !DEVICE_SETTING_KEYS.includes(setting.key)).delete()
+    }
+
+    // Seed foods in old backups are ignored; the installed catalog is authoritative
+    const localFoodIds = new Set(await db.foods.toCollection().primaryKeys())
+    const localRecipeIds = new Set(await db.recipes.toCollection().primaryKeys())
+    const userFoods: Food[] = foods.filter((food) => food.source !== "seed" && !localFoodIds.has(food.id))
+    const newRecipes = recipes.filter((recipe) => !localRecipeIds.has(recipe.id))
+    await db.foods.bulkAdd(userFoods)
+    await db.recipes.bulkAdd(newRecipes)
+
+    const existing = new Set((await db.entries.toArray()).map(entryFingerprint))
+    const toAdd: MealEntry[] = []
+    for (const backupEntry of entries) {
+      const entry: MealEntry = { ...backupEntry }
+      delete entry.id
+      const fingerprint = entryFingerprint(entry)
+      if (existing.has(fingerprint)) continue
+      existing.add(fingerprint)
+      toAdd.push(entry)
+    }
+    await db.entries.bulkAdd(toAdd)
+
+    let profileRestored = false
+    if (profile) {
+      const current = await db.profile.orderBy("updated_at").last()
+      if (mode === "replace" || !current || current.updated_at < profile.updated_at) {
+        await db.profile.clear()
+        await db.profile.add(profile)
+        profileRestored = true
+      }
+    }
+
+    const userSettings = settings.map(toRestorableSetting).filter((setting) => setting !== null)
+    await db.settings.bulkPut(userSettings)
+
+    return {
+      mode,
+      foods: userFoods.length,
+      recipes: newRecipes.length,
+      entries_added: toAdd.length,
+      entries_skipped: entries.length - toAdd.length,
+      profile_restored: profileRestored,
+      settings: userSettings.length,
+    }
+  })
+}
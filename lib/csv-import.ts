@@ -0,0 +1,442 @@
+import { isValid, parse } from "date-fns"
+import db, { calculateNutrition, getMealTypeBoundaries, type Food, type MealEntry, type MealType } from "@/lib/db"
+import { getMealTypeForTime } from "@/lib/meal-type"
+import { getLocalTimeZone, toLocalDateString } from "@/lib/date"
+import { customFoodSchema } from "@/lib/schemas"
+
+export type ImportField =
+  | "date"
+  | "time"
+  | "meal_type"
+  | "food_name"
+  | "grams"
+  | "kcal"
+  | "protein"
+  | "carb"
+  | "fat"
+  | "fiber"
+
+export type ImportDateFormat = "yyyy-MM-dd" | "dd/MM/yyyy" | "MM/dd/yyyy"
+export type DecimalSeparator = "." | ","
+
+export interface ImportMapping {
+  columns: Partial<Record<ImportField, number>> // column index in the CSV
+  date_format: ImportDateFormat
+  decimal_separator: DecimalSeparator
+}
+
+export interface ImportLayout {
+  id: string
+  name: string
+  columns: Partial<Record<ImportField, string>> // header names, matched case-insensitively
+  date_format: ImportDateFormat
+}
+
+export interface ImportRowError {
+  line: number // 1-based line in the file, header included
+  message: string
+}
+
+export interface ImportPreview {
+  entries: MealEntry[]
+  new_foods: Food[]
+  matched_foods: number
+  errors: ImportRowError[]
+  first_date: string | null
+  last_date: string | null
+}
+
+export interface ImportReport {
+  foods_created: number
+  entries_added: number
+  entries_skipped: number
+}
+
+export const IMPORT_FIELDS: { value: ImportField; label: string; required?: boolean }[] = [
+  { value: "date", label: "วันที่", required: true },
+  { value: "time", label: "เวลา" },
+  { value: "meal_type", label: "มื้อ" },
+  { value: "food_name", label: "ชื่ออาหาร", required: true },
+  { value: "grams", label: "ปริมาณ (กรัม)" },
+  { value: "kcal", label: "แคลอรี่ (kcal)" },
+  { value: "protein", label: "โปรตีน (g)" },
+  { value: "carb", label: "คาร์โบไฮเดรต (g)" },
+  { value: "fat", label: "ไขมัน (g)" },
+  { value: "fiber", label: "ใยอาหาร (g)" },
+]
+
+export const IMPORT_DATE_FORMATS: { value: ImportDateFormat; label: string }[] = [
+  { value: "yyyy-MM-dd", label: "ปปปป-ดด-วว (2024-01-31)" },
+  { value: "dd/MM/yyyy", label: "วว/ดด/ปปปป (31/01/2024)" },
+  { value: "MM/dd/yyyy", label: "ดด/วว/ปปปป (01/31/2024)" },
+]
+
+export const IMPORT_DECIMAL_SEPARATORS: { value: DecimalSeparator; label: string }[] = [
+  { value: ".", label: "จุด (1,234.5)" },
+  { value: ",", label: "จุลภาค (1.234,5)" },
+]
+
+// Files split by semicolons come from locales that write 1,5 for one and a half
+export function getDefaultDecimalSeparator(delimiter: "," | ";"): DecimalSeparator {
+  return delimiter === ";" ? "," : "."
+}
+
+/**
+ * Known export layouts. MyFitnessPal only exports per-meal totals, so the meal
+ * name doubles as the food name there.
+ */
+export const IMPORT_LAYOUTS: ImportLayout[] = [
+  {
+    id: "calkal",
+    name: "CalKal",
+    columns: {
+      date: "date",
+      time: "time",
+      meal_type: "meal_type",
+      food_name: "food_name",
+      grams: "grams",
+      kcal: "kcal",
+      protein: "protein_g",
+      carb: "carb_g",
+      fat: "fat_g",
+      fiber: "fiber_g",
+    },
+    date_format: "yyyy-MM-dd",
+  },
+  {
+    id: "cronometer",
+    name: "Cronometer",
+    columns: {
+      date: "day",
+      time: "time",
+      meal_type: "group",
+      food_name: "food name",
+      grams: "amount",
+      kcal: "energy (kcal)",
+      protein: "protein (g)",
+      carb: "carbs (g)",
+      fat: "fat (g)",
+      fiber: "fiber (g)",
+    },
+    date_format: "yyyy-MM-dd",
+  },
+  {
+    id: "loseit",
+    name: "Lose It!",
+    columns: {
+      date: "date",
+      meal_type: "type",
+      food_name: "name",
+      kcal: "calories",
+      protein: "protein (g)",
+      carb: "carbohydrates (g)",
+      fat: "fat (g)",
+      fiber: "fiber (g)",
+    },
+    date_format: "MM/dd/yyyy",
+  },
+  {
+    id: "myfitnesspal",
+    name: "MyFitnessPal",
+    columns: {
+      date: "date",
+      meal_type: "meal",
+      food_name: "meal",
+      kcal: "calories",
+      protein: "protein (g)",
+      carb: "carbohydrates (g)",
+      fat: "fat (g)",
+      fiber: "fiber",
+    },
+    date_format: "yyyy-MM-dd",
+  },
+]
+
+function normalizeHeader(header: string) {
+  return header.trim().toLowerCase()
+}
+
+// First layout whose every column is present in the header row
+export function detectImportLayout(headers: string[]): ImportLayout | null {
+  const normalized = headers.map(normalizeHeader)
+  return (
+    IMPORT_LAYOUTS.find((layout) =>
+      Object.values(layout.columns).every((column) => normalized.includes(normalizeHeader(column))),
+    ) ?? null
+  )
+}
+
+export function layoutToMapping(
+  layout: ImportLayout,
+  headers: string[],
+  decimalSeparator: DecimalSeparator,
+): ImportMapping {
+  const normalized = headers.map(normalizeHeader)
+  const columns: ImportMapping["columns"] = {}
+
+  for (const [field, column] of Object.entries(layout.columns) as [ImportField, string][]) {
+    const index = normalized.indexOf(normalizeHeader(column))
+    if (index !== -1) columns[field] = index
+  }
+
+  return { columns, date_format: layout.date_format, decimal_separator: decimalSeparator }
+}
+
+export function validateImportMapping(mapping: ImportMapping): string | null {
+  const missing = IMPORT_FIELDS.find((field) => field.required && mapping.columns[field.value] === undefined)
+  if (missing) return `กรุณาเลือกคอลัมน์สำหรับ${missing.label}`
+  return null
+}
+
+function parseImportDate(value: string, format: ImportDateFormat): string | null {
+  // Some trackers append a time to the date column
+  const datePart = value.trim().split(/[ T]/)[0]
+  const parsed = parse(datePart, format, new Date())
+  return isValid(parsed) ? toLocalDateString(parsed) : null
+}
+
+function parseImportTime(value: string): string | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i)
+  if (!match) return null
+
+  let hours = Number(match[1])
+  const minutes = Number(match[2])
+  const period = match[3]?.toLowerCase()[0]
+  if (period === "p" && hours < 12) hours += 12
+  if (period === "a" && hours === 12) hours = 0
+  if (hours > 23 || minutes > 59) return null
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`
+}
+
+/**
+ * "1,234.5", "250 g", or "1.234,5" with a decimal comma, read with the
+ * separator chosen in the mapping step, so "1,234" is 1234 with a decimal point.
+ * The other character may only group digits in threes. Throws the message for
+ * the row's error.
+ */
+function parseImportNumber(value: string | undefined, decimal: DecimalSeparator): number | null {
+  if (value === undefined || value.trim() === "") return null
+
+  const text = value.trim()
+  const digits = text.match(/^[\d.,]+/)?.[0]
+  if (!digits) throw new Error(`"${text}" ไม่ใช่ตัวเลข`)
+
+  const group = decimal === "." ? "," : "."
+  const [integer, fraction, ...rest] = digits.split(decimal)
+  const grouped = integer.includes(group)
+  const valid =
+    rest.length === 0 &&
+    (fraction === undefined || /^\d+$/.test(fraction)) &&
+    (grouped ? /^\d{1,3}(?:[.,]\d{3})+$/.test(integer) : /^\d*$/.test(integer))
+
+  if (!valid) throw new Error(`"${text}" ไม่ตรงกับเครื่องหมายทศนิยมที่เลือก`)
+
+  return Number.parseFloat(`${integer.split(group).join("") || "0"}.${fraction ?? "0"}`)
+}
+
+// Amounts in other units ("1 cup", "2 servings") can't be converted to grams
+function parseImportGrams(value: string | undefined, decimal: DecimalSeparator): number | null {
+  if (value === undefined) return null
+  const unit = value.replace(/[\d.,\s]/g, "").toLowerCase()
+  if (unit && !["g", "gram", "grams", "กรัม"].includes(unit)) return null
+  const grams = parseImportNumber(value, decimal)
+  return grams ? grams : null
+}
+
+const MEAL_TYPE_ALIASES: Record<MealType, string[]> = {
+  breakfast: ["breakfast", "มื้อเช้า", "เช้า"],
+  lunch: ["lunch", "มื้อกลางวัน", "กลางวัน"],
+  dinner: ["dinner", "supper", "มื้อเย็น", "เย็น"],
+  snack: ["snack", "snacks", "ของว่าง"],
+}
+
+function parseImportMealType(value: string): MealType | null {
+  const normalized = value.trim().toLowerCase()
+  for (const [mealType, aliases] of Object.entries(MEAL_TYPE_ALIASES) as [MealType, string[]][]) {
+    if (aliases.some((alias) => normalized.startsWith(alias))) return mealType
+  }
+  return null
+}
+
+// Used when the file has a meal but no time
+const DEFAULT_MEAL_TIMES: Record<MealType, string> = {
+  breakfast: "08:00",
+  lunch: "12:00",
+  dinner: "19:00",
+  snack: "15:00",
+}
+
+function round(value: number, digits = 1) {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Turn parsed CSV rows (header first) into entries ready to insert. Food names are
+ * matched against the foods table by Thai or English name; names without a match
+ * get a new custom food whose per-100 g values come from the first row that has
+ * nutrition. Rows without a quantity are treated as one 100 g serving.
+ */
+export async function prepareImport(rows: string[][], mapping: ImportMapping): Promise<ImportPreview> {
+  const [foods, boundaries] = await Promise.all([db.foods.toArray(), getMealTypeBoundaries()])
+  const timeZone = getLocalTimeZone()
+
+  // Active foods win over retired ones with the same name
+  const foodsByName = new Map<string, Food>()
+  for (const food of [...foods].sort((a, b) => Number(!a.retired_at) - Number(!b.retired_at))) {
+    foodsByName.set(food.name_th.trim().toLowerCase(), food)
+    if (food.name_en) foodsByName.set(food.name_en.trim().toLowerCase(), food)
+  }
+
+  const { columns } = mapping
+  const cell = (row: string[], field: ImportField) => {
+    const index = columns[field]
+    return index === undefined ? undefined : row[index]
+  }
+
+  const entries: MealEntry[] = []
+  const newFoods = new Map<string, Food>()
+  const matched = new Set<string>()
+  const errors: ImportRowError[] = []
+  const createdAt = new Date()
+
+  rows.slice(1).forEach((row, index) => {
+    const line = index + 2
+
+    const date = parseImportDate(cell(row, "date") ?? "", mapping.date_format)
+    if (!date) {
+      errors.push({ line, message: "วันที่ไม่ถูกต้อง" })
+      return
+    }
+
+    const foodName = cell(row, "food_name")?.trim()
+    if (!foodName) {
+      errors.push({ line, message: "ไม่มีชื่ออาหาร" })
+      return
+    }
+
+    const rawTime = cell(row, "time")
+    const parsedTime = rawTime ? parseImportTime(rawTime) : null
+    const parsedMealType = parseImportMealType(cell(row, "meal_type") ?? "")
+    const time = parsedTime ?? DEFAULT_MEAL_TIMES[parsedMealType ?? "lunch"]
+    const mealType = parsedMealType ?? getMealTypeForTime(time, boundaries)
+
+    const number = (field: ImportField) => parseImportNumber(cell(row, field), mapping.decimal_separator)
+    let kcal: number | null
+    let recorded: Record<"protein" | "carb" | "fat" | "fiber", number | null>
+    let grams: number | null
+    try {
+      kcal = number("kcal")
+      recorded = { protein: number("protein"), carb: number("carb"), fat: number("fat"), fiber: number("fiber") }
+      grams = parseImportGrams(cell(row, "grams"), mapping.decimal_separator)
+    } catch (error) {
+      errors.push({ line, message: (error as Error).message })
+      return
+    }
+
+    const key = foodName.toLowerCase()
+    let food = foodsByName.get(key) ?? newFoods.get(key)
+
+    if (food) {
+      if (foodsByName.has(key)) matched.add(food.id)
+    } else {
+      if (kcal === null) {
+        errors.push({ line, message: `ไม่พบ "${foodName}" ในรายการอาหารและไม่มีข้อมูลแคลอรี่` })
+        return
+      }
+
+      // Imported foods get the same limits as foods added by hand
+      const per100g = 100 / (grams || 100)
+      const result = customFoodSchema.safeParse({
+        name_th: foodName,
+        category: "นำเข้า",
+        kcal_per_100g: Math.round(kcal * per100g),
+        protein: round((recorded.protein ?? 0) * per100g),
+        carb: round((recorded.carb ?? 0) * per100g),
+        fat: round((recorded.fat ?? 0) * per100g),
+        fiber: round((recorded.fiber ?? 0) * per100g),
+        tags: ["นำเข้า"],
+      })
+      if (!result.success) {
+        errors.push({ line, message: `"${foodName}": ${result.error.issues[0].message}` })
+        return
+      }
+
+      food = { ...result.data, id: `user_${crypto.randomUUID()}`, source: "user" }
+      newFoods.set(key, food)
+    }
+
+    if (!grams) {
+      grams = kcal !== null && food.kcal_per_100g > 0 ? Math.round((kcal / food.kcal_per_100g) * 100) || 100 : 100
+    }
+
+    // Keep the nutrition the other app recorded; fill the gaps from the food
+    const computed = calculateNutrition(food, grams)
+    entries.push({
+      food_id: food.id,
+      food_name: foodName,
+      grams,
+      kcal: kcal ?? computed.kcal,
+      protein: recorded.protein ?? computed.protein,
+      carb: recorded.carb ?? computed.carb,
+      fat: recorded.fat ?? computed.fat,
+      fiber: recorded.fiber ?? computed.fiber,
+      date,
+      time,
+      timezone: timeZone,
+      meal_type: mealType,
+      unit: "g",
+      source: "import",
+      created_at: createdAt,
+    })
+  })
+
+  const dates = entries.map((entry) => entry.date).sort()
+
+  return {
+    entries,
+    new_foods: [...newFoods.values()],
+    matched_foods: matched.size,
+    errors,
+    first_date: dates[0] ?? null,
+    last_date: dates[dates.length - 1] ?? null,
+  }
+}
+
+// created_at is the import time, so duplicates are detected on what was logged instead
+function importFingerprint(entry: MealEntry) {
+  return [entry.date, entry.time, entry.food_name.toLowerCase(), entry.grams, entry.kcal].join("|")
+}
+
+/**
+ * Insert a prepared import in one transaction: either every food and entry is
+ * written or nothing is. Rows already in the log (same day, time, food, amount
+ * and kcal) are skipped so importing the same file twice is harmless.
+ */
+export async function commitImport(preview: ImportPreview): Promise<ImportReport> {
+  return await db.transaction("rw", db.foods, db.entries, async () => {
+    const existing = new Set((await db.entries.toArray()).map(importFingerprint))
+    const toAdd: MealEntry[] = []
+
+    for (const entry of preview.entries) {
+      const fingerprint = importFingerprint(entry)
+      if (existing.has(fingerprint)) continue
+      existing.add(fingerprint)
+      toAdd.push(entry)
+    }
+
+    // Only create foods that end up referenced
+    const usedFoodIds = new Set(toAdd.map((entry) => entry.food_id))
+    const foodsToAdd = preview.new_foods.filter((food) => usedFoodIds.has(food.id))
+
+    await db.foods.bulkAdd(foodsToAdd)
+    await db.entries.bulkAdd(toAdd)
+
+    return {
+      foods_created: foodsToAdd.length,
+      entries_added: toAdd.length,
+      entries_skipped: preview.entries.length - toAdd.length,
+    }
+  })
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+import { parseCsv, toCsv } from "@/lib/csv"
+
+describe("toCsv", () => {
+  it("quotes delimiters, quotes and line breaks", () => {
+    expect(toCsv(["name", "note"], [["ข้าว, ไข่", 'say "hi"'], ["a\nb", null]])).toBe(
+      'name,note\r\n"ข้าว, ไข่","say ""hi"""\r\n"a\nb",',
+    )
+  })
+
+  it.each(["=HYPERLINK(\"http://x\")", "+1+1", "-2+3", "@SUM(A1)", "\tcmd", "\rcmd"])(
+    "keeps %j from running as a formula",
+    (name) => {
+      const [, [cell]] = parseCsv(toCsv(["food_name"], [[name]]))
+      expect(cell).toBe(`'${name}`)
+    },
+  )
+
+  it("writes numbers unchanged, negative ones included", () => {
+    expect(toCsv(["kcal", "delta"], [[250, -120]])).toBe("kcal,delta\r\n250,-120")
+  })
+})
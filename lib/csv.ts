@@ -0,0 +1,143 @@
+import { getEntriesBetween, getEntryMealType, getSummaries, getUserProfile } from "@/lib/db"
+import { getMealTypeLabel } from "@/lib/meal-type"
+
+export type CsvValue = string | number | null | undefined
+
+// Excel only detects UTF-8 (and therefore Thai text) when the file starts with a BOM
+const UTF8_BOM = "\uFEFF"
+
+// Spreadsheets run cells starting with these as formulas; food names are free text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return ""
+  // Numbers are written as-is so negative values stay numeric
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeCsvValue).join(",")).join("\r\n")
+}
+
+// Semicolon exports come from locales that write decimals with a comma
+export function detectCsvDelimiter(text: string): "," | ";" {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ","
+}
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, escaped quotes, CRLF or LF). The delimiter is
+ * guessed from the first line so semicolon exports from European locales work too.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text
+  const delimiter = detectCsvDelimiter(input)
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+}
+
+export function downloadCsv(filename: string, csv: string): void {
+  const blob = new Blob([UTF8_BOM + csv], { type: "text/csv;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * One row per MealEntry between start and end (inclusive)
+ */
+export async function buildEntriesCsv(start: string, end: string): Promise<string> {
+  const entries = await getEntriesBetween(start, end)
+
+  return toCsv(
+    ["date", "time", "meal_type", "food_name", "grams", "kcal", "protein_g", "carb_g", "fat_g", "fiber_g"],
+    entries.map((entry) => [
+      entry.date,
+      entry.time,
+      getMealTypeLabel(getEntryMealType(entry)),
+      entry.food_name,
+      entry.grams,
+      entry.kcal,
+      entry.protein,
+      entry.carb,
+      entry.fat,
+      entry.fiber,
+    ]),
+  )
+}
+
+/**
+ * One row per day between start and end (inclusive), days without entries included
+ */
+export async function buildDailySummaryCsv(start: string, end: string): Promise<string> {
+  const [days, profile] = await Promise.all([getSummaries(start, end, "day"), getUserProfile()])
+  const goal = profile?.daily_kcal_goal ?? null
+
+  return toCsv(
+    ["date", "entries", "kcal", "protein_g", "carb_g", "fat_g", "fiber_g", "kcal_goal"],
+    days.map((day) => [
+      day.period_start,
+      day.meal_count,
+      day.total_kcal,
+      day.total_protein,
+      day.total_carb,
+      day.total_fat,
+      day.total_fiber,
+      goal,
+    ]),
+  )
+}
+
+export async function exportEntriesCsv(start: string, end: string): Promise<void> {
+  downloadCsv(`calkal-entries-${start}_${end}.csv`, await buildEntriesCsv(start, end))
+}
+
+export async function exportDailySummaryCsv(start: string, end: string): Promise<void> {
+  downloadCsv(`calkal-daily-${start}_${end}.csv`, await buildDailySummaryCsv(start, end))
+}
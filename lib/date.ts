@@ -0,0 +1,101 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isValid,
+  parse,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+
+// All meal dates are local calendar days (YYYY-MM-DD) and times are local HH:MM.
+// Never derive them from toISOString(), which is UTC and shifts early-morning
+// meals to the previous day east of Greenwich.
+const DATE_FORMAT = "yyyy-MM-dd"
+const TIME_FORMAT = "HH:mm"
+
+export function toLocalDateString(date: Date = new Date()): string {
+  return format(date, DATE_FORMAT)
+}
+
+export function toLocalTimeString(date: Date = new Date()): string {
+  return format(date, TIME_FORMAT)
+}
+
+export function getTodayDateString(): string {
+  return toLocalDateString(new Date())
+}
+
+/**
+ * Parse a YYYY-MM-DD string as local midnight (new Date("YYYY-MM-DD") is UTC midnight)
+ */
+export function parseLocalDate(dateString: string): Date {
+  return parse(dateString, DATE_FORMAT, new Date())
+}
+
+export function isValidDateString(dateString: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(dateString) && isValid(parseLocalDate(dateString))
+}
+
+export function addDaysToDateString(dateString: string, days: number): string {
+  return toLocalDateString(addDays(parseLocalDate(dateString), days))
+}
+
+export function getLocalTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+  } catch {
+    return "UTC"
+  }
+}
+
+export type Granularity = "day" | "week" | "month"
+
+// Weeks start on Monday
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const
+
+export function getPeriodStart(dateString: string, granularity: Granularity): string {
+  const date = parseLocalDate(dateString)
+  switch (granularity) {
+    case "week":
+      return toLocalDateString(startOfWeek(date, WEEK_OPTIONS))
+    case "month":
+      return toLocalDateString(startOfMonth(date))
+    case "day":
+    default:
+      return dateString
+  }
+}
+
+export function getPeriodEnd(dateString: string, granularity: Granularity): string {
+  const date = parseLocalDate(dateString)
+  switch (granularity) {
+    case "week":
+      return toLocalDateString(endOfWeek(date, WEEK_OPTIONS))
+    case "month":
+      return toLocalDateString(endOfMonth(date))
+    case "day":
+    default:
+      return dateString
+  }
+}
+
+/**
+ * Start dates of every day/week/month period that overlaps [start, end] (inclusive)
+ */
+export function eachPeriodStart(start: string, end: string, granularity: Granularity): string[] {
+  const periods: string[] = []
+  const step = granularity === "month" ? addMonths : granularity === "week" ? addWeeks : addDays
+  let current = parseLocalDate(getPeriodStart(start, granularity))
+  const last = parseLocalDate(end)
+
+  while (current <= last) {
+    periods.push(toLocalDateString(current))
+    current = step(current, 1)
+  }
+
+  return periods
+}
@@ -1,6 +1,31 @@
 import Dexie, { type EntityTable } from "dexie"
+import { findMigrationError, registerMigrations, type MigrationRecord } from "@/lib/migrations"
+import { customFoodSchema, recipeSchema, type CustomFoodInput, type RecipeInput } from "@/lib/schemas"
+import {
+  DEFAULT_MEAL_TYPE_BOUNDARIES,
+  MEAL_TYPES,
+  getMealTypeForTime,
+  type MealTypeBoundaries,
+} from "@/lib/meal-type"
+import {
+  addDaysToDateString,
+  eachPeriodStart,
+  getLocalTimeZone,
+  getPeriodEnd,
+  getPeriodStart,
+  getTodayDateString,
+  toLocalDateString,
+  toLocalTimeString,
+  type Granularity,
+} from "@/lib/date"
 
 // Database interfaces
+export type FoodSource = "seed" | "user" | "recipe"
+export type MealType = "breakfast" | "lunch" | "dinner" | "snack"
+export type EntryUnit = "g" | "ml"
+export type EntrySource = "photo" | "manual" | "legacy" | "import"
+export type PortionReferenceKind = "plate" | "spoon" | "card"
+
 export interface Food {
   id: string
   name_th: string
@@ -12,6 +37,8 @@ export interface Food {
   fat: number
   fiber: number
   tags: string[]
+  source?: FoodSource
+  retired_at?: Date // set when a seed food is removed from the catalog; kept for existing entries
 }
 
 export interface MealEntry {
@@ -24,11 +51,82 @@ export interface MealEntry {
   carb: number
   fat: number
   fiber: number
-  date: string // YYYY-MM-DD format
-  time: string // HH:MM format
+  date: string // YYYY-MM-DD format, local calendar day
+  time: string // HH:MM format, local time
+  timezone?: string // IANA time zone the entry was logged in
+  meal_type?: MealType
+  unit?: EntryUnit
+  source?: EntrySource
+  portion_estimate?: PortionEstimate // suggestion shown when logging, kept to review estimator accuracy
+  photo_entry_id?: number // entry of the same meal whose photo this one shares
   created_at: Date
 }
 
+// Suggested grams from lib/portion.ts
+export interface PortionEstimate {
+  grams: number
+  min: number
+  max: number
+  method: "typical" | "reference"
+  reference?: PortionReferenceKind
+}
+
+export interface RecipeIngredient {
+  food_id: string
+  grams: number
+}
+
+// A recipe shares its id with the Food it produces (source: "recipe")
+export interface Recipe {
+  id: string
+  name_th: string
+  name_en: string
+  category: string
+  ingredients: RecipeIngredient[]
+  cooked_weight: number // grams of the finished dish
+  created_at: Date
+  updated_at: Date
+}
+
+// Photo a meal entry was logged from, keyed by the entry id. Other entries of the
+// same meal point at it through photo_entry_id instead of storing a copy.
+export interface EntryPhoto {
+  entry_id: number
+  blob: Blob
+  created_at: Date
+}
+
+// Embedding of a photo the user confirmed as food_id; only comparable within the same model
+export interface PersonalExample {
+  id?: number
+  model_id: string
+  model_version: string
+  food_id: string
+  embedding: Float32Array // L2-normalized
+  created_at: Date
+}
+
+export interface AppSetting {
+  key: string
+  value: unknown
+  updated_at: Date
+}
+
+export interface CatalogUpdateReport {
+  from_version: string | null
+  to_version: string
+  added: string[]
+  updated: string[]
+  retired: string[]
+  updated_at: Date
+}
+
+interface SeedCatalog {
+  version: string
+  source: string
+  foods: Food[]
+}
+
 export interface UserProfile {
   id?: number
   gender: "male" | "female"
@@ -47,38 +145,158 @@ const db = new Dexie("CalKalDB") as Dexie & {
   foods: EntityTable<Food, "id">
   entries: EntityTable<MealEntry, "id">
   profile: EntityTable<UserProfile, "id">
+  migrations: EntityTable<MigrationRecord, "version">
+  settings: EntityTable<AppSetting, "key">
+  recipes: EntityTable<Recipe, "id">
+  photos: EntityTable<EntryPhoto, "entry_id">
+  examples: EntityTable<PersonalExample, "id">
 }
 
-db.version(1).stores({
-  foods: "id, name_th, name_en, category, *tags",
-  entries: "++id, food_id, date, time, created_at",
-  profile: "++id, updated_at",
-})
+// Schema versions and upgrade functions live in lib/migrations.ts
+registerMigrations(db)
 
-// Seed data loader
-export async function seedDatabase() {
-  try {
-    const foodCount = await db.foods.count()
-    if (foodCount > 0) {
-      console.log("Database already seeded")
-      return
-    }
+// Settings (key/value) functions
+export async function getSetting<T>(key: string): Promise<T | undefined> {
+  const setting = await db.settings.get(key)
+  return setting?.value as T | undefined
+}
+
+export async function setSetting<T>(key: string, value: T): Promise<void> {
+  await db.settings.put({ key, value, updated_at: new Date() })
+}
+
+// Seed catalog updater
+const CATALOG_VERSION_KEY = "catalog_version"
+const CATALOG_REPORT_KEY = "catalog_last_update"
+
+// Downloaded classifier models (see lib/model-registry.ts)
+export const ACTIVE_MODEL_KEY = "active_model"
+export const INSTALLED_MODELS_KEY = "installed_models"
+export const ML_STATUS_KEY = "ml_status"
+export const ACCURACY_MODE_KEY = "accuracy_mode"
+export const CLASSIFIER_LATENCY_KEY = "classifier_latency"
+
+// Settings that describe this install rather than the user's data; never exported or restored
+export const DEVICE_SETTING_KEYS = [
+  CATALOG_VERSION_KEY,
+  CATALOG_REPORT_KEY,
+  ACTIVE_MODEL_KEY,
+  INSTALLED_MODELS_KEY,
+  ML_STATUS_KEY,
+  ACCURACY_MODE_KEY, // chosen for this device's speed
+  CLASSIFIER_LATENCY_KEY,
+]
+
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split(".").map((part) => Number.parseInt(part, 10) || 0)
+  const partsB = b.split(".").map((part) => Number.parseInt(part, 10) || 0)
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0)
+    if (diff !== 0) return diff > 0 ? 1 : -1
+  }
+  return 0
+}
+
+function isSameSeedFood(a: Food, b: Food) {
+  return (
+    a.name_th === b.name_th &&
+    a.name_en === b.name_en &&
+    a.category === b.category &&
+    a.kcal_per_100g === b.kcal_per_100g &&
+    a.protein === b.protein &&
+    a.carb === b.carb &&
+    a.fat === b.fat &&
+    a.fiber === b.fiber &&
+    a.tags.join("|") === b.tags.join("|")
+  )
+}
 
-    console.log("Seeding database with Thai foods...")
+/**
+ * Bring the installed seed foods in line with /data/foods.th.seed.json.
+ * Changed foods are upserted, removed foods are retired (never deleted, so
+ * MealEntry.food_id stays valid) and user-owned foods are left untouched.
+ * Returns null when the installed catalog is already up to date.
+ */
+export async function updateFoodCatalog(): Promise<CatalogUpdateReport | null> {
+  try {
     const response = await fetch("/data/foods.th.seed.json")
-    const seedData = await response.json()
+    const seedData: SeedCatalog = await response.json()
 
-    await db.foods.bulkAdd(seedData.foods)
-    console.log(`Seeded ${seedData.foods.length} Thai foods`)
+    const installedVersion = (await getSetting<string>(CATALOG_VERSION_KEY)) ?? null
+    if (installedVersion && compareVersions(seedData.version, installedVersion) <= 0) {
+      console.log(`Food catalog up to date (v${installedVersion})`)
+      return null
+    }
+
+    console.log(`Updating food catalog ${installedVersion ?? "(none)"} -> ${seedData.version}...`)
+
+    return await db.transaction("rw", db.foods, db.settings, async () => {
+      const installed = await db.foods.where("source").equals("seed").toArray()
+      const installedById = new Map(installed.map((food) => [food.id, food]))
+      const seedIds = new Set(seedData.foods.map((food) => food.id))
+
+      const report: CatalogUpdateReport = {
+        from_version: installedVersion,
+        to_version: seedData.version,
+        added: [],
+        updated: [],
+        retired: [],
+        updated_at: new Date(),
+      }
+      const changes: Food[] = []
+
+      for (const seedFood of seedData.foods) {
+        const next: Food = { ...seedFood, source: "seed" }
+        const current = installedById.get(seedFood.id)
+
+        if (!current) {
+          report.added.push(seedFood.id)
+          changes.push(next)
+        } else if (current.retired_at || !isSameSeedFood(current, next)) {
+          report.updated.push(seedFood.id)
+          changes.push(next)
+        }
+      }
+
+      for (const food of installed) {
+        if (!seedIds.has(food.id) && !food.retired_at) {
+          report.retired.push(food.id)
+          changes.push({ ...food, retired_at: report.updated_at })
+        }
+      }
+
+      await db.foods.bulkPut(changes)
+      await setSetting(CATALOG_VERSION_KEY, seedData.version)
+      await setSetting(CATALOG_REPORT_KEY, report)
+
+      console.log(
+        `Food catalog v${seedData.version}: ${report.added.length} added, ` +
+          `${report.updated.length} updated, ${report.retired.length} retired`,
+      )
+      return report
+    })
   } catch (error) {
-    console.error("Error seeding database:", error)
+    console.error("Error updating food catalog:", error)
+    return null
   }
 }
 
+export async function getCatalogStatus() {
+  const [version, lastUpdate] = await Promise.all([
+    getSetting<string>(CATALOG_VERSION_KEY),
+    getSetting<CatalogUpdateReport>(CATALOG_REPORT_KEY),
+  ])
+  return { version: version ?? null, lastUpdate: lastUpdate ?? null }
+}
+
 // Food search functions
 export async function searchFoods(query: string, limit = 20): Promise<Food[]> {
   if (!query.trim()) {
-    return await db.foods.limit(limit).toArray()
+    return await db.foods
+      .filter((food) => !food.retired_at)
+      .limit(limit)
+      .toArray()
   }
 
   const searchTerm = query.toLowerCase()
@@ -87,10 +305,11 @@ export async function searchFoods(query: string, limit = 20): Promise<Food[]> {
   const results = await db.foods
     .filter(
       (food) =>
-        food.name_th.toLowerCase().includes(searchTerm) ||
-        food.name_en.toLowerCase().includes(searchTerm) ||
-        food.tags.some((tag) => tag.toLowerCase().includes(searchTerm)) ||
-        food.category.toLowerCase().includes(searchTerm),
+        !food.retired_at &&
+        (food.name_th.toLowerCase().includes(searchTerm) ||
+          food.name_en.toLowerCase().includes(searchTerm) ||
+          food.tags.some((tag) => tag.toLowerCase().includes(searchTerm)) ||
+          food.category.toLowerCase().includes(searchTerm)),
     )
     .limit(limit)
     .toArray()
@@ -103,7 +322,54 @@ export async function getFoodById(id: string): Promise<Food | undefined> {
 }
 
 export async function getFoodsByCategory(category: string): Promise<Food[]> {
-  return await db.foods.where("category").equals(category).toArray()
+  return await db.foods
+    .where("category")
+    .equals(category)
+    .filter((food) => !food.retired_at)
+    .toArray()
+}
+
+// Custom (user-defined) food functions
+export async function getCustomFoods(): Promise<Food[]> {
+  return await db.foods.where("source").equals("user").sortBy("name_th")
+}
+
+export async function createCustomFood(input: CustomFoodInput): Promise<string> {
+  const data = customFoodSchema.parse(input)
+  const food: Food = {
+    ...data,
+    id: `user_${crypto.randomUUID()}`,
+    source: "user",
+  }
+
+  return await db.foods.add(food)
+}
+
+export async function updateCustomFood(id: string, input: CustomFoodInput): Promise<void> {
+  const data = customFoodSchema.parse(input)
+
+  await db.transaction("rw", db.foods, async () => {
+    const existing = await db.foods.get(id)
+    if (!existing || existing.source !== "user") {
+      throw new Error("แก้ไขได้เฉพาะอาหารที่สร้างเอง")
+    }
+
+    await db.foods.put({ ...existing, ...data, id, source: "user" })
+  })
+}
+
+// Existing meal entries keep their own nutrition snapshot and food_name
+// Recipes using the food would lose the ingredient (and fail to save) if it were deleted
+export async function deleteCustomFood(id: string): Promise<void> {
+  await db.transaction("rw", db.foods, db.recipes, async () => {
+    const existing = await db.foods.get(id)
+    if (!existing || existing.source !== "user") {
+      throw new Error("ลบได้เฉพาะอาหารที่สร้างเอง")
+    }
+
+    await assertNotAnIngredient(id)
+    await db.foods.delete(id)
+  })
 }
 
 // Nutrition calculation helpers
@@ -118,34 +384,271 @@ export function calculateNutrition(food: Food, grams: number) {
   }
 }
 
+// Recipe functions
+/**
+ * Derive per-100 g nutrition for a dish from its raw ingredients and cooked weight.
+ * Water lost or gained while cooking is accounted for by dividing by cooked_weight.
+ */
+export function calculateRecipeNutrition(ingredients: { food: Food; grams: number }[], cookedWeight: number) {
+  const totals = ingredients.reduce(
+    (acc, { food, grams }) => {
+      const nutrition = calculateNutrition(food, grams)
+      return {
+        kcal: acc.kcal + nutrition.kcal,
+        protein: acc.protein + nutrition.protein,
+        carb: acc.carb + nutrition.carb,
+        fat: acc.fat + nutrition.fat,
+        fiber: acc.fiber + nutrition.fiber,
+      }
+    },
+    { kcal: 0, protein: 0, carb: 0, fat: 0, fiber: 0 },
+  )
+
+  const per100g = cookedWeight > 0 ? 100 / cookedWeight : 0
+  return {
+    kcal_per_100g: Math.round(totals.kcal * per100g),
+    protein: Math.round(totals.protein * per100g * 10) / 10,
+    carb: Math.round(totals.carb * per100g * 10) / 10,
+    fat: Math.round(totals.fat * per100g * 10) / 10,
+    fiber: Math.round(totals.fiber * per100g * 10) / 10,
+  }
+}
+
+// Recipes are not indexed by ingredient, so this scans them all
+export async function getRecipesUsingFood(foodId: string): Promise<Recipe[]> {
+  return await db.recipes
+    .filter((recipe) => recipe.ingredients.some((ingredient) => ingredient.food_id === foodId))
+    .toArray()
+}
+
+async function assertNotAnIngredient(foodId: string) {
+  const recipes = await getRecipesUsingFood(foodId)
+  if (recipes.length > 0) {
+    const names = recipes.map((recipe) => `"${recipe.name_th}"`).join(", ")
+    throw new Error(`ลบไม่ได้เพราะใช้เป็นวัตถุดิบใน ${names} กรุณานำออกจากสูตรก่อน`)
+  }
+}
+
+async function buildRecipeFood(id: string, input: RecipeInput): Promise<{ recipe: Omit<Recipe, "created_at">; food: Food }> {
+  const data = recipeSchema.parse(input)
+
+  const ingredientFoods = await db.foods.bulkGet(data.ingredients.map((ingredient) => ingredient.food_id))
+  const ingredients = data.ingredients.map((ingredient, index) => {
+    const food = ingredientFoods[index]
+    if (!food) {
+      throw new Error("ไม่พบวัตถุดิบบางรายการในฐานข้อมูล")
+    }
+    if (food.id === id) {
+      throw new Error("ไม่สามารถใช้เมนูนี้เป็นวัตถุดิบของตัวเองได้")
+    }
+    return { food, grams: ingredient.grams }
+  })
+
+  const nutrition = calculateRecipeNutrition(ingredients, data.cooked_weight)
+
+  return {
+    recipe: {
+      id,
+      name_th: data.name_th,
+      name_en: data.name_en,
+      category: data.category,
+      ingredients: data.ingredients,
+      cooked_weight: data.cooked_weight,
+      updated_at: new Date(),
+    },
+    food: {
+      id,
+      name_th: data.name_th,
+      name_en: data.name_en,
+      category: data.category,
+      ...nutrition,
+      tags: ["สูตรอาหาร", ...new Set(ingredients.map(({ food }) => food.name_th))],
+      source: "recipe",
+    },
+  }
+}
+
+export async function getRecipes(): Promise<Recipe[]> {
+  return await db.recipes.orderBy("name_th").toArray()
+}
+
+export async function getRecipeById(id: string): Promise<Recipe | undefined> {
+  return await db.recipes.get(id)
+}
+
+export async function createRecipe(input: RecipeInput): Promise<string> {
+  const id = `recipe_${crypto.randomUUID()}`
+
+  return await db.transaction("rw", db.foods, db.recipes, async () => {
+    const { recipe, food } = await buildRecipeFood(id, input)
+    await db.recipes.add({ ...recipe, created_at: recipe.updated_at })
+    await db.foods.add(food)
+    return id
+  })
+}
+
+// Recomputes the recipe's food; logged entries keep the nutrition snapshot they were saved with
+export async function updateRecipe(id: string, input: RecipeInput): Promise<void> {
+  await db.transaction("rw", db.foods, db.recipes, async () => {
+    const existing = await db.recipes.get(id)
+    if (!existing) {
+      throw new Error("ไม่พบสูตรอาหารที่ต้องการแก้ไข")
+    }
+
+    const { recipe, food } = await buildRecipeFood(id, input)
+    await db.recipes.put({ ...recipe, created_at: existing.created_at })
+    await db.foods.put(food)
+  })
+}
+
+// Like a custom food, a recipe can't be deleted while another recipe uses it
+export async function deleteRecipe(id: string): Promise<void> {
+  await db.transaction("rw", db.foods, db.recipes, async () => {
+    await assertNotAnIngredient(id)
+    await db.recipes.delete(id)
+    await db.foods.delete(id)
+  })
+}
+
+// Meal type settings
+export const MEAL_TYPE_BOUNDARIES_KEY = "meal_type_boundaries"
+
+export async function getMealTypeBoundaries(): Promise<MealTypeBoundaries> {
+  return (await getSetting<MealTypeBoundaries>(MEAL_TYPE_BOUNDARIES_KEY)) ?? DEFAULT_MEAL_TYPE_BOUNDARIES
+}
+
+export async function saveMealTypeBoundaries(boundaries: MealTypeBoundaries): Promise<void> {
+  await setSetting(MEAL_TYPE_BOUNDARIES_KEY, boundaries)
+}
+
+export async function getDefaultMealType(time: string): Promise<MealType> {
+  return getMealTypeForTime(time, await getMealTypeBoundaries())
+}
+
 // Meal entry functions
-export async function addMealEntry(food: Food, grams: number, date?: string, time?: string): Promise<number> {
+export interface AddMealEntryOptions {
+  date?: string
+  time?: string
+  mealType?: MealType // defaults from the time of day
+  source?: EntrySource
+  photo?: Blob // stored once in the photos table, under the first entry
+  portionEstimate?: PortionEstimate
+}
+
+async function createMealEntry(
+  food: Food,
+  grams: number,
+  options: AddMealEntryOptions,
+  now: Date,
+): Promise<MealEntry> {
+  const { date, time, mealType, portionEstimate, source = "manual" } = options
   const nutrition = calculateNutrition(food, grams)
-  const now = new Date()
+  const entryTime = time || toLocalTimeString(now)
 
-  const entry: MealEntry = {
+  return {
     food_id: food.id,
     food_name: food.name_th,
     grams,
     ...nutrition,
-    date: date || now.toISOString().split("T")[0],
-    time: time || now.toTimeString().slice(0, 5),
+    date: date || toLocalDateString(now),
+    time: entryTime,
+    meal_type: mealType ?? (await getDefaultMealType(entryTime)),
+    unit: "g",
+    source,
+    ...(portionEstimate && { portion_estimate: portionEstimate }),
+    timezone: getLocalTimeZone(),
     created_at: now,
   }
+}
 
-  return await db.entries.add(entry)
+export async function addMealEntry(food: Food, grams: number, options: AddMealEntryOptions = {}): Promise<number> {
+  const { photo } = options
+  const now = new Date()
+  const entry = await createMealEntry(food, grams, options, now)
+
+  return await db.transaction("rw", db.entries, db.photos, async () => {
+    const id = await db.entries.add(entry)
+    if (photo) {
+      await db.photos.add({ entry_id: id, blob: photo, created_at: now })
+    }
+    return id
+  })
 }
 
-export async function getMealEntriesByDate(date: string): Promise<MealEntry[]> {
+/**
+ * Save several foods from one meal (e.g. each dish on a plate) in a single
+ * transaction: either every entry is stored or none is. The options apply to
+ * all of them. The photo is stored once, under the first entry, and the other
+ * entries reference it.
+ */
+export async function addMealEntries(
+  items: { food: Food; grams: number; portionEstimate?: PortionEstimate }[],
+  options: Omit<AddMealEntryOptions, "portionEstimate"> = {},
+): Promise<number[]> {
+  const { photo } = options
+  const now = new Date()
+  const entries = await Promise.all(
+    items.map(({ food, grams, portionEstimate }) =>
+      createMealEntry(food, grams, { ...options, portionEstimate }, now),
+    ),
+  )
+
+  return await db.transaction("rw", db.entries, db.photos, async () => {
+    const ids = (await db.entries.bulkAdd(entries, { allKeys: true })) as number[]
+    if (photo && ids.length > 0) {
+      const [owner, ...sharing] = ids
+      await db.photos.add({ entry_id: owner, blob: photo, created_at: now })
+      await db.entries.where("id").anyOf(sharing).modify({ photo_entry_id: owner })
+    }
+    return ids
+  })
+}
+
+export async function getEntryPhoto(entryId: number): Promise<Blob | undefined> {
+  const entry = await db.entries.get(entryId)
+  return (await db.photos.get(entry?.photo_entry_id ?? entryId))?.blob
+}
+
+// Delete the photos stored under entries that are about to be deleted. A photo
+// other entries still share moves to the first of them instead. Call inside a
+// transaction on entries and photos.
+async function releaseEntryPhotos(ids: number[]) {
+  const deleting = new Set(ids)
+  const sharing = (await db.entries.where("photo_entry_id").anyOf(ids).toArray()).filter(
+    (entry) => !deleting.has(entry.id!),
+  )
+
+  for (const id of ids) {
+    const [heir, ...rest] = sharing.filter((entry) => entry.photo_entry_id === id)
+    const photo = heir && (await db.photos.get(id))
+    await db.photos.delete(id)
+    if (!heir) continue
+
+    await db.entries.update(heir.id!, { photo_entry_id: undefined })
+    await db.entries.bulkUpdate(rest.map((entry) => ({ key: entry.id!, changes: { photo_entry_id: heir.id } })))
+    if (photo) await db.photos.add({ ...photo, entry_id: heir.id! })
+  }
+}
+
+export async function getMealEntryById(id: number): Promise<MealEntry | undefined> {
+  return await db.entries.get(id)
+}
+
+// Entries from start to end (inclusive, YYYY-MM-DD), ordered by date then time
+export async function getEntriesBetween(start: string, end: string): Promise<MealEntry[]> {
+  if (start > end) return []
+
   return await db.entries
-    .orderBy("time")
-    .filter((entry) => entry.date === date)
+    .where("[date+time]")
+    .between([start, Dexie.minKey], [end, Dexie.maxKey], true, true)
     .toArray()
 }
 
-export async function getDailySummary(date: string) {
-  const entries = await getMealEntriesByDate(date)
+export async function getMealEntriesByDate(date: string): Promise<MealEntry[]> {
+  return await getEntriesBetween(date, date)
+}
 
+function summarizeEntries(entries: MealEntry[]) {
   const summary = entries.reduce(
     (acc, entry) => ({
       total_kcal: acc.total_kcal + entry.kcal,
@@ -171,12 +674,72 @@ export async function getDailySummary(date: string) {
     total_carb: Math.round(summary.total_carb * 10) / 10,
     total_fat: Math.round(summary.total_fat * 10) / 10,
     total_fiber: Math.round(summary.total_fiber * 10) / 10,
+  }
+}
+
+export type NutritionSummary = ReturnType<typeof summarizeEntries>
+
+export function getEntryMealType(entry: MealEntry): MealType {
+  return entry.meal_type ?? getMealTypeForTime(entry.time)
+}
+
+export async function getDailySummary(date: string) {
+  const entries = await getMealEntriesByDate(date)
+
+  const by_meal_type = Object.fromEntries(
+    MEAL_TYPES.map(({ value }) => [value, summarizeEntries(entries.filter((entry) => getEntryMealType(entry) === value))]),
+  ) as Record<MealType, NutritionSummary>
+
+  return {
+    ...summarizeEntries(entries),
+    by_meal_type,
     entries,
   }
 }
 
+export type DailySummary = Awaited<ReturnType<typeof getDailySummary>>
+
+export interface PeriodSummary extends NutritionSummary {
+  period_start: string // YYYY-MM-DD
+  period_end: string // YYYY-MM-DD, inclusive
+  days_logged: number
+}
+
+/**
+ * Aggregate entries per day, week (Monday start) or month over [start, end].
+ * Every period in the range is returned, including empty ones, so charts
+ * don't need to fill gaps. Reads the range once through the [date+time] index.
+ */
+export async function getSummaries(start: string, end: string, granularity: Granularity): Promise<PeriodSummary[]> {
+  const entries = await getEntriesBetween(start, end)
+
+  const entriesByPeriod = new Map<string, MealEntry[]>()
+  for (const entry of entries) {
+    const periodStart = getPeriodStart(entry.date, granularity)
+    const periodEntries = entriesByPeriod.get(periodStart)
+    if (periodEntries) {
+      periodEntries.push(entry)
+    } else {
+      entriesByPeriod.set(periodStart, [entry])
+    }
+  }
+
+  return eachPeriodStart(start, end, granularity).map((periodStart) => {
+    const periodEntries = entriesByPeriod.get(periodStart) ?? []
+    return {
+      ...summarizeEntries(periodEntries),
+      period_start: periodStart,
+      period_end: getPeriodEnd(periodStart, granularity),
+      days_logged: new Set(periodEntries.map((entry) => entry.date)).size,
+    }
+  })
+}
+
 export async function deleteMealEntry(id: number): Promise<void> {
-  await db.entries.delete(id)
+  await db.transaction("rw", db.entries, db.photos, async () => {
+    await releaseEntryPhotos([id])
+    await db.entries.delete(id)
+  })
 }
 
 export async function updateMealEntry(id: number, updates: Partial<MealEntry>): Promise<number> {
@@ -215,25 +778,39 @@ export async function getStorageInfo() {
 
 // Database cleanup
 export async function clearOldEntries(daysToKeep = 90) {
-  const cutoffDate = new Date()
-  cutoffDate.setDate(cutoffDate.getDate() - daysToKeep)
-  const cutoffString = cutoffDate.toISOString().split("T")[0]
+  const cutoffString = addDaysToDateString(getTodayDateString(), -daysToKeep)
 
-  const deletedCount = await db.entries.where("date").below(cutoffString).delete()
+  const deletedCount = await db.transaction("rw", db.entries, db.photos, async () => {
+    const ids = (await db.entries.where("date").below(cutoffString).primaryKeys()) as number[]
+    await releaseEntryPhotos(ids)
+    await db.entries.bulkDelete(ids)
+    return ids.length
+  })
 
   console.log(`Cleaned up ${deletedCount} old entries`)
   return deletedCount
 }
 
+// Migration log
+export async function getAppliedMigrations(): Promise<MigrationRecord[]> {
+  return await db.migrations.orderBy("version").toArray()
+}
+
+// Drop the local database entirely (used by the recovery screen after a failed upgrade)
+export async function resetDatabase() {
+  db.close()
+  await Dexie.delete(db.name)
+}
+
 // Initialize database
 export async function initializeDatabase() {
   try {
     await db.open()
-    await seedDatabase()
+    await updateFoodCatalog()
     console.log("Database initialized successfully")
   } catch (error) {
     console.error("Failed to initialize database:", error)
-    throw error
+    throw findMigrationError(error) ?? error
   }
 }
 
@@ -0,0 +1,105 @@
+import db from "@/lib/db"
+import { fetchModelAsset } from "@/lib/model-cache"
+import { labelMapSchema, type LabelMap } from "@/lib/schemas"
+import type { ModelConfig } from "@/lib/ml-protocol"
+
+type LabelMapSource = Pick<ModelConfig, "labelsPath" | "labelMapPath">
+
+export interface LabelMapReport {
+  version: string
+  labels_version: string
+  mapped: number
+  unmapped: string[] // classes explicitly mapped to null
+  missing: string[] // model classes with no entry in the map
+  unknown_foods: string[] // food ids that aren't in the catalog (or were retired)
+  checked_at: Date
+}
+
+// Validated label → food id lookups per label map; filled by validateLabelMap()
+const resolvedMaps = new Map<string, Map<string, string | null>>()
+const loading = new Map<string, Promise<void>>()
+let lastReport: LabelMapReport | null = null
+
+async function fetchJson(path: string): Promise<unknown> {
+  const response = await fetchModelAsset(path)
+  return await response.json()
+}
+
+/**
+ * Check the label map against the model's label file and the food catalog.
+ * Food ids that don't resolve to an active food are dropped, so a stale map can
+ * only ever produce a search suggestion, never a wrong food.
+ */
+export async function validateLabelMap(source: LabelMapSource): Promise<LabelMapReport> {
+  const [mapJson, labelsJson] = await Promise.all([fetchJson(source.labelMapPath), fetchJson(source.labelsPath)])
+  const labelMap: LabelMap = labelMapSchema.parse(mapJson)
+  const { version: labelsVersion = "", labels = [] } = labelsJson as { version?: string; labels?: string[] }
+
+  if (labelMap.labels_version !== labelsVersion) {
+    console.warn(`Label map ${labelMap.version} was built for labels ${labelMap.labels_version}, model has ${labelsVersion}`)
+  }
+
+  const foodIds = new Set((await db.foods.filter((food) => !food.retired_at).toArray()).map((food) => food.id))
+  const map = new Map<string, string | null>()
+  const report: LabelMapReport = {
+    version: labelMap.version,
+    labels_version: labelMap.labels_version,
+    mapped: 0,
+    unmapped: [],
+    missing: [],
+    unknown_foods: [],
+    checked_at: new Date(),
+  }
+
+  for (const label of labels) {
+    if (!(label in labelMap.mappings)) {
+      report.missing.push(label)
+      map.set(label, null)
+      continue
+    }
+
+    const foodId = labelMap.mappings[label]
+    if (foodId === null) {
+      report.unmapped.push(label)
+    } else if (!foodIds.has(foodId)) {
+      report.unknown_foods.push(foodId)
+    } else {
+      report.mapped++
+    }
+    map.set(label, foodId && foodIds.has(foodId) ? foodId : null)
+  }
+
+  if (report.missing.length > 0 || report.unknown_foods.length > 0) {
+    console.warn("Label map problems:", { missing: report.missing, unknown_foods: report.unknown_foods })
+  }
+
+  resolvedMaps.set(source.labelMapPath, map)
+  lastReport = report
+  return report
+}
+
+export function getLabelMapReport(): LabelMapReport | null {
+  return lastReport
+}
+
+async function getResolvedMap(source: LabelMapSource): Promise<Map<string, string | null>> {
+  const key = source.labelMapPath
+  if (!resolvedMaps.has(key)) {
+    if (!loading.has(key)) {
+      loading.set(
+        key,
+        validateLabelMap(source)
+          .then(() => undefined)
+          .finally(() => loading.delete(key)),
+      )
+    }
+    await loading.get(key)
+  }
+  return resolvedMaps.get(key) ?? new Map()
+}
+
+// Food id for a model class, or undefined when the class has no (valid) mapping
+export async function resolveLabel(label: string, source: LabelMapSource): Promise<string | undefined> {
+  const map = await getResolvedMap(source)
+  return map.get(label) ?? undefined
+}
@@ -0,0 +1,61 @@
+import type { MealType } from "@/lib/db"
+
+export interface MealTimeRange {
+  start: string // HH:MM, inclusive
+  end: string // HH:MM, exclusive
+}
+
+// Anything outside these ranges is a snack
+export type MealTypeBoundaries = Record<Exclude<MealType, "snack">, MealTimeRange>
+
+export const MEAL_TYPES: { value: MealType; label: string }[] = [
+  { value: "breakfast", label: "มื้อเช้า" },
+  { value: "lunch", label: "มื้อกลางวัน" },
+  { value: "dinner", label: "มื้อเย็น" },
+  { value: "snack", label: "ของว่าง" },
+]
+
+export const DEFAULT_MEAL_TYPE_BOUNDARIES: MealTypeBoundaries = {
+  breakfast: { start: "05:00", end: "11:00" },
+  lunch: { start: "11:00", end: "15:00" },
+  dinner: { start: "17:00", end: "22:00" },
+}
+
+export function getMealTypeLabel(mealType: MealType): string {
+  return MEAL_TYPES.find((type) => type.value === mealType)?.label ?? "ของว่าง"
+}
+
+/**
+ * Pick the meal type for a HH:MM time. Ranges may wrap past midnight (start > end).
+ */
+export function getMealTypeForTime(
+  time: string,
+  boundaries: MealTypeBoundaries = DEFAULT_MEAL_TYPE_BOUNDARIES,
+): MealType {
+  const hhmm = time.slice(0, 5)
+
+  for (const mealType of ["breakfast", "lunch", "dinner"] as const) {
+    const { start, end } = boundaries[mealType]
+    const inRange = start <= end ? hhmm >= start && hhmm < end : hhmm >= start || hhmm < end
+    if (inRange) return mealType
+  }
+
+  return "snack"
+}
+
+export function validateMealTypeBoundaries(boundaries: MealTypeBoundaries): string | null {
+  const pattern = /^([01]\d|2[0-3]):[0-5]\d$/
+
+  for (const { value, label } of MEAL_TYPES) {
+    if (value === "snack") continue
+    const { start, end } = boundaries[value]
+    if (!pattern.test(start) || !pattern.test(end)) {
+      return `กรุณาใส่เวลาของ${label}ให้ถูกต้อง`
+    }
+    if (start === end) {
+      return `เวลาเริ่มและสิ้นสุดของ${label}ต้องไม่ซ้ำกัน`
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,186 @@
+import Dexie from "dexie"
+import { IDBFactory, IDBKeyRange } from "fake-indexeddb"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  LATEST_SCHEMA_VERSION,
+  MIGRATIONS,
+  MigrationError,
+  findMigrationError,
+  registerMigrations,
+  type Migration,
+} from "@/lib/migrations"
+
+// Migration 5 moves entries to their local day, so pin the zone it sees
+process.env.TZ = "Asia/Bangkok"
+
+const DB_NAME = "CalKalDB"
+
+let indexedDB: IDBFactory
+
+function openDatabase() {
+  return new Dexie(DB_NAME, { indexedDB, IDBKeyRange })
+}
+
+// A database as the first release left it
+async function createVersion1(entries: object[], foods: object[]) {
+  const db = openDatabase()
+  db.version(1).stores(MIGRATIONS[0].stores)
+  await db.open()
+  await db.table("entries").bulkAdd(entries)
+  await db.table("foods").bulkAdd(foods)
+  db.close()
+}
+
+async function upgrade() {
+  const db = openDatabase()
+  registerMigrations(db)
+  await db.open()
+  return db
+}
+
+const food = {
+  id: "pad_thai",
+  name_th: "ผัดไทย",
+  name_en: "Pad Thai",
+  category: "อาหารจานเดียว",
+  kcal_per_100g: 170,
+  protein: 6,
+  carb: 25,
+  fat: 5,
+  fiber: 1,
+  tags: [],
+}
+
+const entry = {
+  food_id: "pad_thai",
+  food_name: "ผัดไทย",
+  grams: 200,
+  kcal: 340,
+  protein: 12,
+  carb: 50,
+  fat: 10,
+  fiber: 2,
+}
+
+beforeEach(() => {
+  indexedDB = new IDBFactory()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("registerMigrations", () => {
+  it("upgrades a version 1 database with data to the latest version", async () => {
+    await createVersion1(
+      [
+        // Logged "now" at 03:00 local time, stored under the UTC day before
+        { ...entry, date: "2024-01-01", time: "03:00", created_at: new Date("2024-01-01T20:00:30Z") },
+        // Backdated by the user, so the date stays
+        { ...entry, date: "2023-12-25", time: "12:30", created_at: new Date("2024-01-01T06:00:00Z") },
+      ],
+      [food],
+    )
+
+    const db = await upgrade()
+    expect(db.verno).toBe(LATEST_SCHEMA_VERSION)
+
+    const [early, backdated] = await db.table("entries").orderBy("id").toArray()
+    expect(early).toMatchObject({
+      date: "2024-01-02",
+      time: "03:00",
+      meal_type: "snack",
+      unit: "g",
+      source: "legacy",
+      timezone: "Asia/Bangkok",
+    })
+    expect(backdated).toMatchObject({ date: "2023-12-25", meal_type: "lunch", unit: "g", source: "legacy" })
+    expect(await db.table("foods").get("pad_thai")).toMatchObject({ source: "seed" })
+
+    const log = await db.table("migrations").orderBy("version").toArray()
+    expect(log.map(({ version, name }) => ({ version, name }))).toEqual(
+      MIGRATIONS.slice(1).map(({ version, name }) => ({ version, name })),
+    )
+    expect(log.every((record) => record.applied_at instanceof Date)).toBe(true)
+
+    // Tables added along the way exist and are usable
+    expect(await db.table("settings").count()).toBe(0)
+    expect(await db.table("entries").where("[date+time]").equals(["2024-01-02", "03:00"]).count()).toBe(1)
+    db.close()
+  })
+
+  it("moves entries saved after local midnight to the local day", async () => {
+    // Local midnight in Bangkok is 17:00 UTC, so the UTC day lags until then
+    await createVersion1(
+      [
+        { ...entry, date: "2024-01-01", time: "23:55", created_at: new Date("2024-01-01T16:55:00Z") },
+        { ...entry, date: "2024-01-01", time: "00:05", created_at: new Date("2024-01-01T17:05:00Z") },
+        // Logged hours after the meal
+        { ...entry, date: "2024-01-01", time: "02:00", created_at: new Date("2024-01-01T23:30:00Z") },
+        // Form opened before midnight and saved after it
+        { ...entry, date: "2024-01-01", time: "23:50", created_at: new Date("2024-01-01T17:05:00Z") },
+      ],
+      [food],
+    )
+
+    const db = await upgrade()
+    const dates = (await db.table("entries").orderBy("id").toArray()).map(({ date, time }) => `${date} ${time}`)
+    expect(dates).toEqual(["2024-01-01 23:55", "2024-01-02 00:05", "2024-01-02 02:00", "2024-01-01 23:50"])
+    db.close()
+  })
+
+  it("merges copies of a multi-dish meal photo into one", async () => {
+    const db = openDatabase()
+    for (const migration of MIGRATIONS.filter((migration) => migration.version <= 8)) {
+      db.version(migration.version).stores(migration.stores)
+    }
+    await db.open()
+
+    const createdAt = new Date("2024-03-01T05:00:00Z")
+    const meal = { ...entry, date: "2024-03-01", time: "12:00", created_at: createdAt }
+    const ids = (await db.table("entries").bulkAdd([meal, meal, { ...meal, created_at: new Date() }], {
+      allKeys: true,
+    })) as number[]
+    await db.table("photos").bulkAdd([
+      { entry_id: ids[0], blob: new Blob(["meal"]), created_at: createdAt },
+      { entry_id: ids[1], blob: new Blob(["meal"]), created_at: createdAt },
+      { entry_id: ids[2], blob: new Blob(["other"]), created_at: new Date() },
+    ])
+    db.close()
+
+    const upgraded = await upgrade()
+    expect(await upgraded.table("photos").toCollection().primaryKeys()).toEqual([ids[0], ids[2]])
+    expect(await upgraded.table("entries").where("photo_entry_id").equals(ids[0]).primaryKeys()).toEqual([ids[1]])
+    upgraded.close()
+  })
+
+  it("creates a fresh database with every migration logged", async () => {
+    const db = await upgrade()
+
+    const log = await db.table("migrations").orderBy("version").toArray()
+    expect(log.map((record) => record.version)).toEqual(MIGRATIONS.map((migration) => migration.version))
+    db.close()
+  })
+
+  it("surfaces a failed upgrade as a MigrationError and keeps the old data", async () => {
+    await createVersion1([{ ...entry, date: "2024-01-01", time: "12:00", created_at: new Date() }], [food])
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    vi.spyOn(MIGRATIONS[1] as Required<Migration>, "upgrade").mockRejectedValue(new Error("disk full"))
+
+    const error = await upgrade().then(
+      () => null,
+      (error: unknown) => error,
+    )
+    const migrationError = findMigrationError(error)
+    expect(migrationError).toBeInstanceOf(MigrationError)
+    expect(migrationError?.version).toBe(2)
+    expect(migrationError?.message).toBe("ไม่สามารถอัปเดตฐานข้อมูลเป็นเวอร์ชัน 2 ได้")
+    expect((migrationError?.cause as Error).message).toBe("disk full")
+
+    const db = openDatabase()
+    await db.open()
+    expect(db.verno).toBe(1)
+    expect(await db.table("entries").count()).toBe(1)
+    db.close()
+  })
+})
@@ -0,0 +1,241 @@
+import type Dexie from "dexie"
+import type { Transaction } from "dexie"
+
+export interface Migration {
+  version: number
+  name: string
+  stores: Record<string, string | null>
+  upgrade?: (tx: Transaction) => Promise<void>
+}
+
+export interface MigrationRecord {
+  version: number
+  name: string
+  applied_at: Date
+}
+
+export class MigrationError extends Error {
+  version: number
+
+  constructor(version: number, message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = "MigrationError"
+    this.version = version
+  }
+}
+
+/**
+ * Ordered list of schema versions. Never edit a migration once it has shipped —
+ * add a new one with the next version number instead. Upgrade functions must
+ * only depend on data in the transaction (not on app code that may change later).
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial",
+    stores: {
+      foods: "id, name_th, name_en, category, *tags",
+      entries: "++id, food_id, date, time, created_at",
+      profile: "++id, updated_at",
+    },
+  },
+  {
+    version: 2,
+    name: "meal-type-unit-source",
+    stores: {
+      foods: "id, name_th, name_en, category, source, *tags",
+      entries: "++id, food_id, date, time, meal_type, created_at",
+      migrations: "version",
+    },
+    upgrade: async (tx) => {
+      // Boundaries frozen at the time of this migration (hour of day, inclusive start)
+      const mealTypeForTime = (time: string) => {
+        const hour = Number.parseInt(time?.slice(0, 2) ?? "", 10)
+        if (isNaN(hour)) return "snack"
+        if (hour >= 5 && hour < 11) return "breakfast"
+        if (hour >= 11 && hour < 15) return "lunch"
+        if (hour >= 17 && hour < 22) return "dinner"
+        return "snack"
+      }
+
+      await tx
+        .table("entries")
+        .toCollection()
+        .modify((entry) => {
+          if (!entry.meal_type) entry.meal_type = mealTypeForTime(entry.time)
+          if (!entry.unit) entry.unit = "g"
+          if (!entry.source) entry.source = "legacy"
+        })
+
+      await tx
+        .table("foods")
+        .toCollection()
+        .modify((food) => {
+          if (!food.source) food.source = "seed"
+        })
+    },
+  },
+  {
+    version: 3,
+    name: "settings-table",
+    stores: {
+      settings: "key",
+    },
+  },
+  {
+    version: 4,
+    name: "recipes-table",
+    stores: {
+      recipes: "id, name_th, updated_at",
+    },
+  },
+  {
+    version: 5,
+    name: "local-entry-dates",
+    stores: {},
+    upgrade: async (tx) => {
+      // Entries used to default their date from toISOString() (UTC) but their time from
+      // local time. Every entry still on the UTC day of its created_at, where that differs
+      // from the local day, moves to the last local day on which its time had passed when
+      // it was saved. Entries with a user-picked date are left alone.
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+      const pad = (value: number) => String(value).padStart(2, "0")
+      const localDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+      const minutesOf = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5))
+
+      await tx
+        .table("entries")
+        .toCollection()
+        .modify((entry) => {
+          const createdAt = entry.created_at instanceof Date ? entry.created_at : new Date(entry.created_at)
+
+          if (!isNaN(createdAt.getTime()) && typeof entry.time === "string") {
+            const utcDate = createdAt.toISOString().split("T")[0]
+
+            if (entry.date === utcDate && utcDate !== localDate(createdAt)) {
+              // A time after the save (form opened before midnight) belongs to the day before
+              const createdMinutes = createdAt.getHours() * 60 + createdAt.getMinutes()
+              const daysBack = minutesOf(entry.time) > createdMinutes ? 1 : 0
+              const day = new Date(createdAt.getFullYear(), createdAt.getMonth(), createdAt.getDate() - daysBack)
+              entry.date = localDate(day)
+            }
+          }
+
+          if (!entry.timezone) entry.timezone = timeZone
+        })
+    },
+  },
+  {
+    version: 6,
+    name: "entries-date-time-index",
+    stores: {
+      entries: "++id, food_id, date, time, [date+time], meal_type, created_at",
+    },
+  },
+  {
+    version: 7,
+    name: "entry-photos",
+    stores: {
+      photos: "entry_id, created_at",
+    },
+  },
+  {
+    version: 8,
+    name: "personal-examples",
+    stores: {
+      examples: "++id, [model_id+model_version], food_id, created_at",
+    },
+  },
+  {
+    version: 9,
+    name: "shared-meal-photos",
+    stores: {
+      entries: "++id, food_id, date, time, [date+time], meal_type, created_at, photo_entry_id",
+    },
+    upgrade: async (tx) => {
+      // Multi-dish meals used to store a copy of the photo per entry. Entries saved
+      // together share created_at, so keep the first copy and point the rest at it.
+      const owners = new Map<string, number>()
+      const photos = tx.table("photos")
+      for (const photo of await photos.orderBy("entry_id").toArray()) {
+        const key = `${new Date(photo.created_at).getTime()}|${photo.blob?.size}`
+        const owner = owners.get(key)
+        if (owner === undefined) {
+          owners.set(key, photo.entry_id)
+          continue
+        }
+        await tx.table("entries").update(photo.entry_id, { photo_entry_id: owner })
+        await photos.delete(photo.entry_id)
+      }
+    },
+  },
+]
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * Register every migration on the Dexie instance. Each upgrade is recorded in the
+ * `migrations` table; failures are rethrown as MigrationError so the UI can
+ * offer recovery instead of a generic error.
+ */
+export function registerMigrations(db: Dexie) {
+  for (const migration of MIGRATIONS) {
+    const version = db.version(migration.version).stores(migration.stores)
+
+    version.upgrade(async (tx) => {
+      try {
+        if (migration.upgrade) {
+          await migration.upgrade(tx)
+        }
+      } catch (error) {
+        console.error(`Migration ${migration.version} (${migration.name}) failed:`, error)
+        throw new MigrationError(
+          migration.version,
+          `ไม่สามารถอัปเดตฐานข้อมูลเป็นเวอร์ชัน ${migration.version} ได้`,
+          { cause: error },
+        )
+      }
+
+      await tx.table("migrations").put({
+        version: migration.version,
+        name: migration.name,
+        applied_at: new Date(),
+      } satisfies MigrationRecord)
+    })
+  }
+
+  // Fresh installs are created at the latest version directly, so no upgrade
+  // functions run. Record every migration as applied to keep the log complete.
+  db.on("populate", async (tx) => {
+    const appliedAt = new Date()
+    await tx.table("migrations").bulkPut(
+      MIGRATIONS.map((migration) => ({
+        version: migration.version,
+        name: migration.name,
+        applied_at: appliedAt,
+      })),
+    )
+  })
+}
+
+/**
+ * Find a MigrationError (or a Dexie upgrade/version error) anywhere in an error's
+ * `inner`/`cause` chain.
+ */
+export function findMigrationError(error: unknown): MigrationError | null {
+  let current: unknown = error
+
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (current instanceof MigrationError) return current
+
+    const { name, message } = current as { name?: string; message?: string }
+    if (name === "UpgradeError" || name === "VersionError") {
+      const nested = findMigrationError((current as { inner?: unknown }).inner)
+      return nested ?? new MigrationError(LATEST_SCHEMA_VERSION, message || "Database upgrade failed", { cause: current })
+    }
+
+    current = (current as { inner?: unknown; cause?: unknown }).inner ?? (current as { cause?: unknown }).cause
+  }
+
+  return null
+}
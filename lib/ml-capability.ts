@@ -0,0 +1,50 @@
+import { ML_STATUS_KEY, getSetting, setSetting } from "@/lib/db"
+
+// model: the downloaded model failed its checksum or could not be loaded (InvalidModelError)
+export type MLUnavailableCause = "browser" | "model"
+
+export interface MLStatus {
+  available: boolean
+  cause: MLUnavailableCause | null
+  reason: string | null // shown to the user when the classifier is unavailable
+  checked_at: Date
+}
+
+// Everything the inference worker and model registry rely on
+export function getBrowserSupportIssue(): string | null {
+  if (typeof Worker === "undefined") return "เบราว์เซอร์ไม่รองรับ Web Worker"
+  if (typeof WebAssembly === "undefined") return "เบราว์เซอร์ไม่รองรับ WebAssembly"
+  if (typeof caches === "undefined") return "เบราว์เซอร์ไม่รองรับการเก็บโมเดลไว้ในเครื่อง"
+  if (!globalThis.crypto?.subtle) return "เบราว์เซอร์ไม่รองรับการตรวจสอบไฟล์โมเดล"
+  return null
+}
+
+export async function getMLStatus(): Promise<MLStatus | null> {
+  return (await getSetting<MLStatus>(ML_STATUS_KEY)) ?? null
+}
+
+export async function markMLAvailable(): Promise<MLStatus> {
+  const status: MLStatus = { available: true, cause: null, reason: null, checked_at: new Date() }
+  await setSetting(ML_STATUS_KEY, status)
+  return status
+}
+
+export async function markMLUnavailable(cause: MLUnavailableCause, reason: string): Promise<MLStatus> {
+  const status: MLStatus = { available: false, cause, reason, checked_at: new Date() }
+  await setSetting(ML_STATUS_KEY, status)
+  return status
+}
+
+/**
+ * Startup capability check. Only the browser is checked here — loading the model
+ * is left to the first photo. A broken model recorded earlier is kept until the
+ * user retries from /settings; network failures are never recorded.
+ */
+export async function checkMLCapability(): Promise<MLStatus> {
+  const issue = getBrowserSupportIssue()
+  if (issue) return await markMLUnavailable("browser", issue)
+
+  const previous = await getMLStatus()
+  if (previous && previous.cause !== "browser") return previous
+  return await markMLAvailable()
+}
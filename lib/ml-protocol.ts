@@ -0,0 +1,78 @@
+import type { CalibrationConfig, Certainty } from "@/lib/postprocess"
+import type { PreprocessConfig, Region } from "@/lib/preprocess"
+
+// Message protocol between the main thread (lib/session.ts) and the
+// inference worker (lib/ml.worker.ts). Every request carries an id that the
+// worker echoes back on its progress/result/error messages.
+
+export interface ClassificationResult {
+  label: string
+  confidence: number
+  food_id?: string // set on the main thread from the label map; absent for unmapped classes
+}
+
+export interface DetectedRegion extends Region {
+  score: number
+}
+
+export interface DetectorConfig {
+  modelPath: string
+  inputSize: number
+  preprocessing: PreprocessConfig
+  scoreThreshold: number
+  iouThreshold: number
+  maxRegions: number
+}
+
+export interface RegionClassification {
+  results: ClassificationResult[]
+  certainty: Certainty
+  embedding: Float32Array | null // penultimate-layer output, when the model exposes one
+}
+
+// Built from a model registry entry (lib/model-registry.ts); paths are Cache Storage keys
+export interface ModelConfig {
+  id: string
+  version: string
+  modelPath: string
+  labelsPath: string
+  labelMapPath: string
+  inputSize: number
+  preprocessing: PreprocessConfig
+  topK: number
+  threshold: number
+  calibration: CalibrationConfig
+  embeddingOutput?: string
+  detector?: DetectorConfig // only for models that ship a region proposer
+}
+
+export type InferenceStage = "downloading" | "loading" | "preprocessing" | "inference" | "postprocessing"
+
+export interface InferenceProgress {
+  stage: InferenceStage
+  progress: number // 0–1 within the stage
+}
+
+// RGBA pixels; the buffer is transferred to the worker, not copied
+export interface WorkerImage {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+// With augment, each region's prediction is averaged over AUGMENTED_VIEWS (lib/preprocess.ts)
+export type WorkerRequest =
+  | { type: "init"; id: number; config: ModelConfig }
+  | { type: "classify"; id: number; image: WorkerImage; regions: Region[]; augment: boolean }
+  | { type: "detect"; id: number; image: WorkerImage }
+  | { type: "cancel"; id: number }
+  | { type: "dispose"; id: number }
+
+export type WorkerResponse =
+  | { type: "progress"; id: number; progress: InferenceProgress }
+  | { type: "ready"; id: number; labels: number }
+  | { type: "result"; id: number; classifications: RegionClassification[] } // one per requested region
+  | { type: "regions"; id: number; regions: DetectedRegion[] }
+  | { type: "cancelled"; id: number }
+  | { type: "disposed"; id: number }
+  | { type: "error"; id: number; message: string; invalidModel: boolean } // invalidModel: see InvalidModelError
@@ -0,0 +1,361 @@
+import * as ort from "onnxruntime-web"
+import type {
+  DetectedRegion,
+  DetectorConfig,
+  InferenceProgress,
+  ModelConfig,
+  RegionClassification,
+  WorkerImage,
+  WorkerRequest,
+  WorkerResponse,
+} from "@/lib/ml-protocol"
+import { InvalidModelError, fetchModelAsset, readWithProgress } from "@/lib/model-cache"
+import {
+  AUGMENTED_VIEWS,
+  PLAIN_VIEW,
+  cropImage,
+  flipHorizontal,
+  preprocessImage,
+  subRegion,
+  type PreprocessConfig,
+  type Region,
+} from "@/lib/preprocess"
+import { postprocess } from "@/lib/postprocess"
+
+// Inference worker: owns the ONNX session so model loading, preprocessing,
+// session.run and softmax never block the UI thread.
+
+// tsconfig only loads the DOM lib, so type just the parts of the worker scope we use
+const scope = self as unknown as {
+  postMessage(message: WorkerResponse): void
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null
+}
+
+let session: ort.InferenceSession | null = null
+let detectorSession: Promise<ort.InferenceSession> | null = null
+let config: ModelConfig | null = null
+let labels: string[] = []
+let initPromise: Promise<void> | null = null
+
+// Ids of classify/detect requests in progress, and those the main thread gave up on.
+// Cancels for requests that already finished are ignored so neither set grows.
+const running = new Set<number>()
+const cancelled = new Set<number>()
+
+function post(message: WorkerResponse) {
+  scope.postMessage(message)
+}
+
+function reportProgress(id: number, progress: InferenceProgress) {
+  post({ type: "progress", id, progress })
+}
+
+class CancelledError extends Error {
+  constructor() {
+    super("Cancelled")
+    this.name = "CancelledError"
+  }
+}
+
+function throwIfCancelled(id: number) {
+  if (cancelled.has(id)) throw new CancelledError()
+}
+
+async function getExecutionProviders(): Promise<string[]> {
+  const executionProviders: string[] = []
+
+  // Try WebGPU first (if available)
+  if ("gpu" in navigator) {
+    try {
+      const adapter = await (navigator as any).gpu?.requestAdapter()
+      if (adapter) {
+        executionProviders.push("webgpu")
+        console.log("WebGPU available, using WebGPU execution provider")
+      }
+    } catch (error) {
+      console.log("WebGPU not available, falling back to WASM")
+    }
+  }
+
+  // Always add WASM as fallback
+  executionProviders.push("wasm")
+  return executionProviders
+}
+
+// Read the model ourselves so loading can report progress
+async function fetchModel(id: number, modelPath: string): Promise<Uint8Array> {
+  const response = await fetchModelAsset(modelPath)
+  return new Uint8Array(
+    await readWithProgress(response, (progress) => reportProgress(id, { stage: "loading", progress })),
+  )
+}
+
+// No fallback list: labels that don't belong to the model would silently mislabel every photo
+async function loadLabels(labelsPath: string): Promise<string[]> {
+  const response = await fetchModelAsset(labelsPath)
+  const data = await response.json().catch((error) => {
+    throw new InvalidModelError(`Invalid labels file: ${labelsPath}`, { cause: error })
+  })
+  const loaded: unknown = data.labels
+
+  if (!Array.isArray(loaded) || loaded.length === 0 || !loaded.every((label) => typeof label === "string")) {
+    throw new InvalidModelError(`Invalid labels file: ${labelsPath}`)
+  }
+  return loaded
+}
+
+async function createSession(model: Uint8Array): Promise<ort.InferenceSession> {
+  return await ort.InferenceSession.create(model, {
+    executionProviders: await getExecutionProviders(),
+    graphOptimizationLevel: "all",
+    enableCpuMemArena: true,
+    enableMemPattern: true,
+  })
+}
+
+async function initialize(id: number, modelConfig: ModelConfig) {
+  console.log("Initializing ONNX Runtime...")
+
+  // Set ONNX Runtime options
+  ort.env.wasm.wasmPaths = "/onnx-wasm/"
+  ort.env.wasm.numThreads = Math.min(navigator.hardwareConcurrency || 4, 4)
+  ort.env.logLevel = "warning"
+
+  reportProgress(id, { stage: "loading", progress: 0 })
+  console.log(`Loading model from ${modelConfig.modelPath}...`)
+  const model = await fetchModel(id, modelConfig.modelPath)
+
+  session = await createSession(model).catch((error) => {
+    throw new InvalidModelError(`Invalid model file: ${modelConfig.modelPath}`, { cause: error })
+  })
+
+  labels = await loadLabels(modelConfig.labelsPath)
+  config = modelConfig
+  console.log(`ML worker ready with ${labels.length} food labels`)
+}
+
+function toInputTensor(
+  image: WorkerImage,
+  inputSize: number,
+  preprocessing: PreprocessConfig,
+  onProgress?: (progress: number) => void,
+): ort.Tensor {
+  const { data, dims } = preprocessImage(image, inputSize, preprocessing, onProgress)
+  return new ort.Tensor("float32", data, dims)
+}
+
+async function classify(
+  id: number,
+  image: WorkerImage,
+  regions: Region[],
+  augment: boolean,
+): Promise<RegionClassification[]> {
+  if (!session || !config) {
+    throw new Error("Model not initialized")
+  }
+
+  const { embeddingOutput } = config
+  const logitsOutput = session.outputNames.find((name) => name !== embeddingOutput) ?? session.outputNames[0]
+  const fetches = embeddingOutput ? [logitsOutput, embeddingOutput] : [logitsOutput]
+  const views = augment ? AUGMENTED_VIEWS : [PLAIN_VIEW]
+  const steps = regions.length * views.length
+
+  const classifications: RegionClassification[] = []
+  for (const [index, region] of regions.entries()) {
+    // Logits (and embeddings) are averaged, so calibration applies to the combined prediction as to one view
+    let logits: Float32Array | null = null
+    let embedding: Float32Array | null = null
+
+    for (const [viewIndex, view] of views.entries()) {
+      const step = index * views.length + viewIndex
+
+      // Each region is cropped out first, then preprocessed like a whole photo
+      throwIfCancelled(id)
+      const crop = cropImage(image, subRegion(region, view.region))
+      const tensor = toInputTensor(
+        view.flip ? flipHorizontal(crop) : crop,
+        config.inputSize,
+        config.preprocessing,
+        (progress) => reportProgress(id, { stage: "preprocessing", progress: (step + progress) / steps }),
+      )
+
+      throwIfCancelled(id)
+      reportProgress(id, { stage: "inference", progress: step / steps })
+      const outputs = await session.run({ [session.inputNames[0]]: tensor }, fetches)
+
+      // session.run can't be interrupted, but a cancelled result is never delivered
+      throwIfCancelled(id)
+      const predictions = outputs[logitsOutput].data as Float32Array
+      if (predictions.length !== labels.length) {
+        throw new Error(`Model has ${predictions.length} classes but its labels file has ${labels.length}`)
+      }
+      logits = accumulate(logits, predictions, views.length)
+      if (embeddingOutput) {
+        embedding = accumulate(embedding, outputs[embeddingOutput].data as Float32Array, views.length)
+      }
+    }
+
+    reportProgress(id, { stage: "postprocessing", progress: index / regions.length })
+    const { results, certainty } = postprocess(logits!, labels, config)
+    classifications.push({
+      results: results.map(({ label, confidence }) => ({ label, confidence })),
+      certainty,
+      embedding,
+    })
+  }
+  return classifications
+}
+
+// Adds values / count into total, so after `count` calls it holds their mean
+function accumulate(total: Float32Array | null, values: Float32Array, count: number): Float32Array {
+  const sum = total ?? new Float32Array(values.length)
+  for (let i = 0; i < values.length; i++) sum[i] += values[i] / count
+  return sum
+}
+
+async function getDetectorSession(id: number, detector: DetectorConfig): Promise<ort.InferenceSession> {
+  if (!detectorSession) {
+    detectorSession = fetchModel(id, detector.modelPath).then(createSession)
+    detectorSession.catch(() => {
+      detectorSession = null
+    })
+  }
+  return await detectorSession
+}
+
+function intersectionOverUnion(a: Region, b: Region): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y)
+  if (width <= 0 || height <= 0) return 0
+
+  const intersection = width * height
+  return intersection / (a.width * a.height + b.width * b.height - intersection)
+}
+
+// Greedy non-maximum suppression over normalized x1, y1, x2, y2 boxes
+function selectRegions(boxes: Float32Array, scores: Float32Array, detector: DetectorConfig): DetectedRegion[] {
+  const candidates: DetectedRegion[] = []
+  for (let i = 0; i < scores.length; i++) {
+    if (scores[i] < detector.scoreThreshold) continue
+
+    const x1 = Math.max(0, boxes[i * 4])
+    const y1 = Math.max(0, boxes[i * 4 + 1])
+    const x2 = Math.min(1, boxes[i * 4 + 2])
+    const y2 = Math.min(1, boxes[i * 4 + 3])
+    if (x2 <= x1 || y2 <= y1) continue
+
+    candidates.push({ x: x1, y: y1, width: x2 - x1, height: y2 - y1, score: scores[i] })
+  }
+  candidates.sort((a, b) => b.score - a.score)
+
+  const selected: DetectedRegion[] = []
+  for (const candidate of candidates) {
+    if (selected.length >= detector.maxRegions) break
+    if (selected.every((region) => intersectionOverUnion(region, candidate) < detector.iouThreshold)) {
+      selected.push(candidate)
+    }
+  }
+  return selected
+}
+
+async function detect(id: number, image: WorkerImage): Promise<DetectedRegion[]> {
+  const detector = config?.detector
+  if (!detector) {
+    throw new Error("Model has no region detector")
+  }
+
+  reportProgress(id, { stage: "loading", progress: 0 })
+  const detectorModel = await getDetectorSession(id, detector)
+
+  throwIfCancelled(id)
+  const tensor = toInputTensor(image, detector.inputSize, detector.preprocessing, (progress) =>
+    reportProgress(id, { stage: "preprocessing", progress }),
+  )
+
+  throwIfCancelled(id)
+  reportProgress(id, { stage: "inference", progress: 0 })
+  const outputs = await detectorModel.run({ [detectorModel.inputNames[0]]: tensor })
+
+  throwIfCancelled(id)
+  reportProgress(id, { stage: "postprocessing", progress: 0 })
+  const { boxes, scores } = outputs
+  if (!boxes || !scores || boxes.data.length !== scores.data.length * 4) {
+    throw new Error("Detector must output boxes [1, N, 4] and scores [1, N]")
+  }
+  return selectRegions(boxes.data as Float32Array, scores.data as Float32Array, detector)
+}
+
+scope.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data
+
+  switch (request.type) {
+    case "init": {
+      try {
+        if (!initPromise) {
+          initPromise = initialize(request.id, request.config)
+        }
+        await initPromise
+        post({ type: "ready", id: request.id, labels: labels.length })
+      } catch (error) {
+        initPromise = null
+        console.error("Failed to initialize ML worker:", error)
+        post({
+          type: "error",
+          id: request.id,
+          message: error instanceof Error ? error.message : String(error),
+          invalidModel: error instanceof InvalidModelError,
+        })
+      }
+      break
+    }
+
+    case "classify":
+    case "detect": {
+      running.add(request.id)
+      try {
+        if (request.type === "classify") {
+          const { image, regions, augment } = request
+          const classifications = await classify(request.id, image, regions, augment)
+          post({ type: "result", id: request.id, classifications })
+        } else {
+          post({ type: "regions", id: request.id, regions: await detect(request.id, request.image) })
+        }
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          post({ type: "cancelled", id: request.id })
+        } else {
+          console.error("Prediction error:", error)
+          post({
+            type: "error",
+            id: request.id,
+            message: error instanceof Error ? error.message : String(error),
+            invalidModel: false,
+          })
+        }
+      } finally {
+        running.delete(request.id)
+        cancelled.delete(request.id)
+      }
+      break
+    }
+
+    case "cancel":
+      if (running.has(request.id)) cancelled.add(request.id)
+      break
+
+    case "dispose": {
+      if (session) {
+        await session.release()
+        session = null
+      }
+      if (detectorSession) {
+        await (await detectorSession.catch(() => null))?.release()
+        detectorSession = null
+      }
+      config = null
+      initPromise = null
+      post({ type: "disposed", id: request.id })
+      break
+    }
+  }
+}
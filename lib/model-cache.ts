@@ -0,0 +1,68 @@
+// Cache Storage for downloaded models and their label files. Kept free of app
+// imports so the inference worker can use it too.
+
+export const MODEL_CACHE_NAME = "calkal-models-v1"
+
+// The model or its files are broken (checksum, format), as opposed to unreachable.
+// Only these mark photo recognition unavailable; network failures retry next time.
+export class InvalidModelError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = "InvalidModelError"
+  }
+}
+
+/**
+ * Versioned cache key for a model asset. The query string keeps versions apart in
+ * the cache; the static file server ignores it, so assets are only ever read back
+ * from the cache, where they were stored after their SHA-256 was checked.
+ */
+export function modelAssetKey(url: string, version: string): string {
+  return `${url}?v=${encodeURIComponent(version)}`
+}
+
+// No network fallback: an evicted asset has to be downloaded and verified again
+// (ensureActiveModel in lib/model-registry.ts does that)
+export async function fetchModelAsset(key: string): Promise<Response> {
+  const cache = await caches.open(MODEL_CACHE_NAME)
+  const cached = await cache.match(key)
+  if (!cached) {
+    throw new Error(`${key} is not in the model cache`)
+  }
+  return cached
+}
+
+/**
+ * Read a response body to the end, reporting progress (0–1) when the size is
+ * known from Content-Length or the caller.
+ */
+export async function readWithProgress(
+  response: Response,
+  onProgress?: (progress: number) => void,
+  expectedSize = 0,
+): Promise<ArrayBuffer> {
+  if (!response.body) {
+    return await response.arrayBuffer()
+  }
+
+  const total = Number(response.headers.get("content-length")) || expectedSize
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    received += value.length
+    if (total > 0) onProgress?.(Math.min(received / total, 1))
+  }
+
+  const bytes = new Uint8Array(received)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes.buffer
+}
@@ -0,0 +1,237 @@
+import { ACTIVE_MODEL_KEY, INSTALLED_MODELS_KEY, getSetting, setSetting } from "@/lib/db"
+import { InvalidModelError, MODEL_CACHE_NAME, modelAssetKey, readWithProgress } from "@/lib/model-cache"
+import {
+  calibrationSchema,
+  modelManifestSchema,
+  preprocessingSchema,
+  type DetectorEntry,
+  type ModelEntry,
+  type ModelManifest,
+} from "@/lib/schemas"
+import type { DetectorConfig, ModelConfig } from "@/lib/ml-protocol"
+
+export const MODEL_MANIFEST_PATH = "/models/manifest.json"
+
+export interface ModelRef {
+  id: string
+  version: string
+}
+
+export interface InstalledModel {
+  entry: ModelEntry // manifest entry at download time, kept after the manifest moves on
+  installed_at: Date
+}
+
+export interface DownloadModelOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: number) => void
+}
+
+export function isSameModel(a: ModelRef, b: ModelRef): boolean {
+  return a.id === b.id && a.version === b.version
+}
+
+export async function getModelManifest(): Promise<ModelManifest> {
+  let json: unknown
+  try {
+    const response = await fetch(MODEL_MANIFEST_PATH, { cache: "no-cache" })
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    json = await response.json()
+  } catch (error) {
+    console.error("Failed to fetch model manifest:", error)
+    throw new Error("ไม่สามารถโหลดรายการโมเดลได้")
+  }
+
+  const result = modelManifestSchema.safeParse(json)
+  if (!result.success) {
+    console.error("Invalid model manifest:", result.error)
+    throw new InvalidModelError("รายการโมเดลไม่ถูกต้อง")
+  }
+  return result.data
+}
+
+export async function getInstalledModels(): Promise<InstalledModel[]> {
+  return (await getSetting<InstalledModel[]>(INSTALLED_MODELS_KEY)) ?? []
+}
+
+export async function getActiveModelRef(): Promise<ModelRef | null> {
+  return (await getSetting<ModelRef>(ACTIVE_MODEL_KEY)) ?? null
+}
+
+export async function setActiveModel(ref: ModelRef): Promise<void> {
+  const installed = await getInstalledModels()
+  if (!installed.some((model) => isSameModel(model.entry, ref))) {
+    throw new Error("ยังไม่ได้ดาวน์โหลดโมเดลนี้")
+  }
+  await setSetting<ModelRef>(ACTIVE_MODEL_KEY, { id: ref.id, version: ref.version })
+}
+
+// Installed entries are stored as downloaded, possibly before preprocessing was configurable
+function getPreprocessing(entry: ModelEntry | DetectorEntry) {
+  return preprocessingSchema.parse(entry.preprocessing)
+}
+
+// Side of the square model input, wherever the layout puts the channel axis
+export function getInputSize(entry: ModelEntry | DetectorEntry): number {
+  return getPreprocessing(entry).layout === "NCHW" ? entry.input_shape[2] : entry.input_shape[1]
+}
+
+function toDetectorConfig(detector: DetectorEntry, version: string): DetectorConfig {
+  return {
+    modelPath: modelAssetKey(detector.url, version),
+    inputSize: getInputSize(detector),
+    preprocessing: { ...getPreprocessing(detector), ...detector.normalization },
+    scoreThreshold: detector.score_threshold,
+    iouThreshold: detector.iou_threshold,
+    maxRegions: detector.max_regions,
+  }
+}
+
+export function toModelConfig(entry: ModelEntry): ModelConfig {
+  return {
+    id: entry.id,
+    version: entry.version,
+    modelPath: modelAssetKey(entry.url, entry.version),
+    labelsPath: modelAssetKey(entry.labels, entry.version),
+    labelMapPath: modelAssetKey(entry.label_map, entry.version),
+    inputSize: getInputSize(entry),
+    preprocessing: { ...getPreprocessing(entry), ...entry.normalization },
+    topK: entry.top_k,
+    threshold: entry.threshold,
+    calibration: calibrationSchema.parse(entry.calibration),
+    embeddingOutput: entry.embedding_output,
+    detector: entry.detector && toDetectorConfig(entry.detector, entry.version),
+  }
+}
+
+async function getActiveModelEntry(): Promise<ModelEntry | null> {
+  const [active, installed] = await Promise.all([getActiveModelRef(), getInstalledModels()])
+  const model = active && installed.find((candidate) => isSameModel(candidate.entry, active))
+  return model ? model.entry : null
+}
+
+// Config of the active model, or null when no model has been downloaded yet
+export async function getActiveModelConfig(): Promise<ModelConfig | null> {
+  const entry = await getActiveModelEntry()
+  return entry ? toModelConfig(entry) : null
+}
+
+function modelAssetUrls(entry: ModelEntry): string[] {
+  return [entry.url, entry.labels, entry.label_map, ...(entry.detector ? [entry.detector.url] : [])]
+}
+
+// The browser may evict Cache Storage (or the user clear it) behind the installed list's back
+async function isModelCached(entry: ModelEntry): Promise<boolean> {
+  const cache = await caches.open(MODEL_CACHE_NAME)
+  const cached = await Promise.all(modelAssetUrls(entry).map((url) => cache.match(modelAssetKey(url, entry.version))))
+  return cached.every(Boolean)
+}
+
+async function sha256Hex(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes)
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+async function downloadVerified(
+  asset: { url: string; size: number; sha256: string },
+  signal: AbortSignal | undefined,
+  onProgress?: (progress: number) => void,
+): Promise<ArrayBuffer> {
+  const response = await fetch(asset.url, { signal, cache: "no-store" })
+  if (!response.ok) {
+    throw new Error(`ไม่สามารถดาวน์โหลดโมเดลได้ (HTTP ${response.status})`)
+  }
+  const bytes = await readWithProgress(response, onProgress, asset.size)
+
+  if ((await sha256Hex(bytes)) !== asset.sha256) {
+    throw new InvalidModelError("ไฟล์โมเดลเสียหรือไม่ตรงกับเวอร์ชันที่ระบุ กรุณาลองใหม่")
+  }
+  return bytes
+}
+
+function modelResponse(bytes: ArrayBuffer, contentType = "application/octet-stream") {
+  return new Response(bytes, {
+    headers: { "Content-Type": contentType, "Content-Length": String(bytes.byteLength) },
+  })
+}
+
+/**
+ * Download a model, its label files and its detector (if any) into Cache
+ * Storage. Nothing is stored (or listed as installed) unless every file
+ * matches its SHA-256 in the manifest; labels that don't belong to the model
+ * would mislabel every prediction.
+ */
+export async function downloadModel(entry: ModelEntry, options: DownloadModelOptions = {}): Promise<InstalledModel> {
+  const { signal, onProgress } = options
+  const { detector } = entry
+
+  // With a detector, each ONNX file takes half of the progress bar
+  const share = detector ? 0.5 : 1
+  const bytes = await downloadVerified(entry, signal, (progress) => onProgress?.(progress * share))
+  const detectorBytes =
+    detector && (await downloadVerified(detector, signal, (progress) => onProgress?.(share + progress * share)))
+
+  const [labels, labelMap] = await Promise.all([
+    downloadVerified({ url: entry.labels, size: 0, sha256: entry.labels_sha256 }, signal),
+    downloadVerified({ url: entry.label_map, size: 0, sha256: entry.label_map_sha256 }, signal),
+  ])
+
+  const cache = await caches.open(MODEL_CACHE_NAME)
+  await Promise.all([
+    cache.put(modelAssetKey(entry.url, entry.version), modelResponse(bytes)),
+    cache.put(modelAssetKey(entry.labels, entry.version), modelResponse(labels, "application/json")),
+    cache.put(modelAssetKey(entry.label_map, entry.version), modelResponse(labelMap, "application/json")),
+    ...(detector && detectorBytes
+      ? [cache.put(modelAssetKey(detector.url, entry.version), modelResponse(detectorBytes))]
+      : []),
+  ])
+
+  const installed: InstalledModel = { entry, installed_at: new Date() }
+  const others = (await getInstalledModels()).filter((model) => !isSameModel(model.entry, entry))
+  await setSetting<InstalledModel[]>(INSTALLED_MODELS_KEY, [...others, installed])
+
+  return installed
+}
+
+export async function deleteModel(ref: ModelRef): Promise<void> {
+  const active = await getActiveModelRef()
+  if (active && isSameModel(active, ref)) {
+    throw new Error("ไม่สามารถลบโมเดลที่กำลังใช้งานอยู่")
+  }
+
+  const installed = await getInstalledModels()
+  const model = installed.find((candidate) => isSameModel(candidate.entry, ref))
+  if (!model) return
+
+  const { entry } = model
+  const cache = await caches.open(MODEL_CACHE_NAME)
+  await Promise.all(modelAssetUrls(entry).map((url) => cache.delete(modelAssetKey(url, entry.version))))
+
+  await setSetting<InstalledModel[]>(INSTALLED_MODELS_KEY, installed.filter((candidate) => candidate !== model))
+}
+
+/**
+ * Config for the active model, downloading and activating the manifest's
+ * default model on first use. An active model whose files were evicted from
+ * the cache is downloaded (and verified) again.
+ */
+export async function ensureActiveModel(options: DownloadModelOptions = {}): Promise<ModelConfig> {
+  const active = await getActiveModelEntry()
+  if (active) {
+    if (!(await isModelCached(active))) {
+      await downloadModel(active, options)
+    }
+    return toModelConfig(active)
+  }
+
+  const manifest = await getModelManifest()
+  const entry = manifest.models.find((model) => model.id === manifest.default_model) ?? manifest.models[0]
+  if (!entry) throw new Error("ยังไม่มีโมเดล AI ให้ดาวน์โหลด")
+
+  const installed = (await getInstalledModels()).find((model) => isSameModel(model.entry, entry))
+  if (!installed || !(await isModelCached(entry))) {
+    await downloadModel(entry, options)
+  }
+  await setActiveModel(entry)
+  return toModelConfig(entry)
+}
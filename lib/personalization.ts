@@ -0,0 +1,151 @@
+import db, { getFoodById, type PersonalExample } from "@/lib/db"
+import type { ModelRef } from "@/lib/model-registry"
+import type { ModelConfig, RegionClassification } from "@/lib/ml-protocol"
+import { scoreCertainty } from "@/lib/postprocess"
+
+// Photos the user confirmed, kept per model as embeddings for a nearest-neighbour
+// re-ranker. Everything stays in IndexedDB on this device.
+
+// Oldest examples are dropped past this, so recent habits count most
+const MAX_EXAMPLES_PER_MODEL = 500
+const NEIGHBOURS = 5
+// Neighbours less similar than this (cosine) don't vote
+const MIN_SIMILARITY = 0.5
+// Share of the final score given to personal votes, reached at RAMP_EXAMPLES examples
+const MAX_PERSONAL_WEIGHT = 0.5
+const RAMP_EXAMPLES = 20
+
+export interface PersonalizationSource {
+  model: ModelRef
+  embedding: Float32Array | null
+}
+
+const examplesByModel = new Map<string, Promise<PersonalExample[]>>()
+
+function modelKey(model: ModelRef) {
+  return `${model.id}@${model.version}`
+}
+
+function normalize(embedding: Float32Array): Float32Array {
+  let norm = 0
+  for (const value of embedding) norm += value * value
+  norm = Math.sqrt(norm) || 1
+  return embedding.map((value) => value / norm)
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+function getExamples(model: ModelRef): Promise<PersonalExample[]> {
+  const key = modelKey(model)
+  let examples = examplesByModel.get(key)
+  if (!examples) {
+    examples = db.examples.where("[model_id+model_version]").equals([model.id, model.version]).toArray()
+    examples.catch(() => examplesByModel.delete(key))
+    examplesByModel.set(key, examples)
+  }
+  return examples
+}
+
+/**
+ * Remember that a photo showed foodId. Does nothing when the model doesn't
+ * expose embeddings.
+ */
+export async function addPersonalExample(source: PersonalizationSource, foodId: string): Promise<void> {
+  const { model, embedding } = source
+  if (!embedding) return
+
+  await db.transaction("rw", db.examples, async () => {
+    await db.examples.add({
+      model_id: model.id,
+      model_version: model.version,
+      food_id: foodId,
+      embedding: normalize(embedding),
+      created_at: new Date(),
+    })
+
+    // Ids are auto-incremented, so the lowest belong to the oldest examples
+    const ids = (await db.examples
+      .where("[model_id+model_version]")
+      .equals([model.id, model.version])
+      .primaryKeys()) as number[]
+    if (ids.length > MAX_EXAMPLES_PER_MODEL) {
+      ids.sort((a, b) => a - b)
+      await db.examples.bulkDelete(ids.slice(0, ids.length - MAX_EXAMPLES_PER_MODEL))
+    }
+  })
+  examplesByModel.delete(modelKey(model))
+}
+
+export async function countPersonalExamples(): Promise<number> {
+  return await db.examples.count()
+}
+
+export async function clearPersonalExamples(): Promise<void> {
+  await db.examples.clear()
+  examplesByModel.clear()
+}
+
+type RankedClassification = Pick<RegionClassification, "results" | "certainty">
+
+/**
+ * Blend the model's scores with votes from the most similar confirmed photos.
+ * Personal votes get more weight as examples accumulate, and a food the model
+ * missed entirely can still come out on top when the user logs it often.
+ * Certainty is then judged on the blended scores, not the model's softmax.
+ */
+export async function rerankWithPersonalExamples(
+  classification: RankedClassification,
+  source: PersonalizationSource,
+  config: Pick<ModelConfig, "topK" | "calibration">,
+): Promise<RankedClassification> {
+  if (!source.embedding) return classification
+
+  const examples = await getExamples(source.model)
+  if (examples.length === 0) return classification
+
+  const query = normalize(source.embedding)
+  const neighbours = examples
+    .map((example) => ({ food_id: example.food_id, similarity: dot(query, example.embedding) }))
+    .filter((neighbour) => neighbour.similarity >= MIN_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, NEIGHBOURS)
+  if (neighbours.length === 0) return classification
+
+  const votes = new Map<string, number>()
+  let totalVotes = 0
+  for (const neighbour of neighbours) {
+    votes.set(neighbour.food_id, (votes.get(neighbour.food_id) ?? 0) + neighbour.similarity)
+    totalVotes += neighbour.similarity
+  }
+
+  const weight = MAX_PERSONAL_WEIGHT * Math.min(1, examples.length / RAMP_EXAMPLES)
+  const blend = (confidence: number, foodId?: string) => {
+    const vote = foodId ? (votes.get(foodId) ?? 0) / totalVotes : 0
+    return Math.round(((1 - weight) * confidence + weight * vote) * 100) / 100
+  }
+
+  // Several labels can map to one food; only the first one collects its votes
+  const voted = new Set<string>()
+  const reranked = classification.results.map((result) => {
+    const foodId = result.food_id && !voted.has(result.food_id) ? result.food_id : undefined
+    if (foodId) voted.add(foodId)
+    return { ...result, confidence: blend(result.confidence, foodId) }
+  })
+
+  for (const foodId of votes.keys()) {
+    if (voted.has(foodId)) continue
+    const food = await getFoodById(foodId)
+    if (food && !food.retired_at) {
+      reranked.push({ label: food.name_th, confidence: blend(0, foodId), food_id: foodId })
+    }
+  }
+
+  const results = reranked.sort((a, b) => b.confidence - a.confidence).slice(0, config.topK)
+  const certainty = scoreCertainty(results.map((result) => result.confidence), config.calibration)
+  return { results, certainty }
+}
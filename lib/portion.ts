@@ -0,0 +1,93 @@
+import type { Food, PortionEstimate, PortionReferenceKind } from "@/lib/db"
+import type { Region } from "@/lib/preprocess"
+
+// Gram suggestions for a logged food: a typical serving by default, or the
+// dish's area on the photo when the user marks a reference object of known size.
+
+interface PortionProfile {
+  grams: number
+  min: number
+  max: number
+  g_per_cm2: number // grams per cm² of the dish seen from above
+}
+
+const CATEGORY_PORTIONS: Record<string, PortionProfile> = {
+  "อาหารจานเดียว": { grams: 350, min: 280, max: 450, g_per_cm2: 1.1 },
+  "ก๋วยเตี๋ยว": { grams: 400, min: 300, max: 500, g_per_cm2: 1.6 },
+  "แกง/ต้ม": { grams: 250, min: 180, max: 350, g_per_cm2: 1.4 },
+  "ยำ/สลัด": { grams: 150, min: 100, max: 220, g_per_cm2: 0.6 },
+  "ข้าว": { grams: 160, min: 120, max: 220, g_per_cm2: 1.4 },
+  "ย่าง/ปิ้ง": { grams: 100, min: 60, max: 150, g_per_cm2: 0.8 },
+  "ของหวาน": { grams: 200, min: 150, max: 280, g_per_cm2: 1.0 },
+  "ไข่/โปรตีน": { grams: 60, min: 45, max: 90, g_per_cm2: 0.55 },
+  "ผลไม้": { grams: 100, min: 50, max: 150, g_per_cm2: 1.0 },
+  "สเต๊ก": { grams: 200, min: 150, max: 280, g_per_cm2: 1.2 },
+  "อาหารญี่ปุ่น": { grams: 120, min: 80, max: 200, g_per_cm2: 1.0 },
+  "ผัด/ทอด": { grams: 150, min: 100, max: 220, g_per_cm2: 0.8 },
+}
+
+const DEFAULT_PORTION: PortionProfile = { grams: 150, min: 100, max: 250, g_per_cm2: 0.9 }
+
+// Seed foods whose usual serving differs from the rest of their category
+const FOOD_PORTIONS: Record<string, Partial<PortionProfile>> = {
+  th_003: { grams: 300, min: 220, max: 400 }, // ต้มยำกุ้ง, one bowl
+  th_011: { grams: 50, min: 40, max: 65 }, // ไข่ดาว, one egg
+  th_012: { grams: 90, min: 60, max: 120 },
+  th_013: { grams: 100, min: 70, max: 150 }, // ข้าวเหนียว, one small bag
+  th_014: { grams: 50, min: 35, max: 70 }, // กล้วยไข่, one banana
+  th_015: { grams: 90, min: 60, max: 120 }, // หมูปิ้ง, three skewers
+  th_025: { grams: 80, min: 60, max: 120 }, // sushi, two pieces
+  th_026: { grams: 80, min: 60, max: 120 },
+  th_034: { grams: 60, min: 40, max: 90 },
+  th_037: { grams: 300, min: 250, max: 400 }, // มาม่า, one pack with soup
+}
+
+export const PORTION_REFERENCES: Record<PortionReferenceKind, { label: string; length_cm: number }> = {
+  plate: { label: "จานข้าวมาตรฐาน (26 ซม.)", length_cm: 26 },
+  spoon: { label: "ช้อนกินข้าว (17 ซม.)", length_cm: 17 },
+  card: { label: "บัตรเครดิต/บัตรประชาชน (8.6 ซม.)", length_cm: 8.56 },
+}
+
+// Range around an area-based estimate, which is rougher than a typical serving
+const REFERENCE_MARGIN = 0.25
+
+export interface PortionPhoto {
+  width: number // pixels, to turn region fractions into real proportions
+  height: number
+  region: Region // the dish
+  reference: { kind: PortionReferenceKind; region: Region }
+}
+
+function getPortionProfile(food: Food): PortionProfile {
+  return { ...(CATEGORY_PORTIONS[food.category] ?? DEFAULT_PORTION), ...FOOD_PORTIONS[food.id] }
+}
+
+function roundGrams(grams: number) {
+  return Math.min(2000, Math.max(5, Math.round(grams / 5) * 5))
+}
+
+/**
+ * Suggest a gram amount and plausible range for a food. With a photo, the
+ * reference object's longest side sets the scale, and the dish is treated as
+ * an ellipse filling its box.
+ */
+export function estimatePortion(food: Food, photo?: PortionPhoto): PortionEstimate {
+  const profile = getPortionProfile(food)
+  if (!photo) {
+    return { grams: profile.grams, min: profile.min, max: profile.max, method: "typical" }
+  }
+
+  const { width, height, region, reference } = photo
+  const referencePixels = Math.max(reference.region.width * width, reference.region.height * height)
+  const cmPerPixel = PORTION_REFERENCES[reference.kind].length_cm / referencePixels
+  const areaCm2 = (Math.PI / 4) * region.width * width * region.height * height * cmPerPixel ** 2
+  const grams = areaCm2 * profile.g_per_cm2
+
+  return {
+    grams: roundGrams(grams),
+    min: roundGrams(grams * (1 - REFERENCE_MARGIN)),
+    max: roundGrams(grams * (1 + REFERENCE_MARGIN)),
+    method: "reference",
+    reference: reference.kind,
+  }
+}
@@ -0,0 +1,104 @@
+// Logits → ranked, calibrated results. Pure functions like lib/preprocess.ts,
+// shared by the inference worker and anything that evaluates models offline.
+
+export interface CalibrationConfig {
+  temperature: number // logits are divided by this before softmax; fitted on a validation set
+  auto_select: number // calibrated top confidence needed to pick the food without asking
+  max_entropy: number // normalized entropy (0–1) above which the model is unsure
+  min_margin: number // top-1 minus top-2 probability below which the model is unsure
+}
+
+// confident: safe to auto-select; possible: show suggestions; unsure: ask the user to search
+export type Certainty = "confident" | "possible" | "unsure"
+
+export interface RankedResult {
+  index: number // class index in the labels file
+  label: string
+  confidence: number
+}
+
+export interface PostprocessOptions {
+  topK: number
+  threshold: number
+  calibration: CalibrationConfig
+}
+
+export interface PostprocessedOutput {
+  results: RankedResult[]
+  certainty: Certainty
+  entropy: number
+  margin: number
+}
+
+export function softmax(logits: ArrayLike<number>, temperature = 1): Float32Array {
+  let maxLogit = -Infinity
+  for (let i = 0; i < logits.length; i++) maxLogit = Math.max(maxLogit, logits[i] / temperature)
+
+  const probabilities = new Float32Array(logits.length)
+  let sum = 0
+  for (let i = 0; i < logits.length; i++) {
+    probabilities[i] = Math.exp(logits[i] / temperature - maxLogit)
+    sum += probabilities[i]
+  }
+  for (let i = 0; i < probabilities.length; i++) probabilities[i] /= sum
+  return probabilities
+}
+
+// Shannon entropy divided by its maximum, so 0 is one certain class and 1 is uniform
+export function normalizedEntropy(probabilities: Float32Array): number {
+  if (probabilities.length < 2) return 0
+
+  let entropy = 0
+  for (const p of probabilities) {
+    if (p > 0) entropy -= p * Math.log(p)
+  }
+  return entropy / Math.log(probabilities.length)
+}
+
+/**
+ * Temperature-scaled softmax, top-k above the threshold, and a certainty
+ * verdict from the entropy of the whole distribution and the gap between the
+ * two best classes.
+ */
+export function postprocess(
+  logits: ArrayLike<number>,
+  labels: string[],
+  options: PostprocessOptions,
+): PostprocessedOutput {
+  const { topK, threshold, calibration } = options
+  const probabilities = softmax(logits, calibration.temperature)
+
+  const indices = Array.from({ length: probabilities.length }, (_, i) => i)
+  indices.sort((a, b) => probabilities[b] - probabilities[a])
+
+  const results: RankedResult[] = []
+  for (const index of indices.slice(0, topK)) {
+    const confidence = probabilities[index]
+    if (confidence >= threshold) {
+      results.push({ index, label: labels[index], confidence: Math.round(confidence * 100) / 100 })
+    }
+  }
+
+  const top = probabilities[indices[0]] ?? 0
+  const entropy = normalizedEntropy(probabilities)
+  const margin = top - (probabilities[indices[1]] ?? 0)
+
+  let certainty: Certainty = "possible"
+  if (results.length === 0 || entropy > calibration.max_entropy || margin < calibration.min_margin) {
+    certainty = "unsure"
+  } else if (top >= calibration.auto_select) {
+    certainty = "confident"
+  }
+
+  return { results, certainty, entropy, margin }
+}
+
+/**
+ * Certainty from ranked scores alone, for scores re-ranked after postprocess
+ * (personal examples) where the full distribution and its entropy are gone.
+ */
+export function scoreCertainty(scores: number[], calibration: CalibrationConfig): Certainty {
+  const [top = 0, second = 0] = [...scores].sort((a, b) => b - a)
+  if (top === 0 || top - second < calibration.min_margin) return "unsure"
+  return top >= calibration.auto_select ? "confident" : "possible"
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest"
+import { preprocessImage, type PreprocessConfig, type RGBAImage } from "@/lib/preprocess"
+
+// Raw pixel values out, so the golden tensors below are plain sampled values
+const IDENTITY: PreprocessConfig = {
+  resize: "stretch",
+  interpolation: "bilinear",
+  scale: 1,
+  mean: [0, 0, 0],
+  std: [1, 1, 1],
+  channel_order: "RGB",
+  layout: "NCHW",
+}
+
+function makeImage(width: number, height: number, pixel: (x: number, y: number) => number[]): RGBAImage {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...pixel(x, y), 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+/**
+ * 6 × 6 test image whose channels are sums of a column and a row profile:
+ * R = x² + 10y, G = 3y², B = 2x. Every resampler averages along x and y
+ * separately, so each output channel is (profile of x) + (profile of y) and the
+ * golden values can be worked out by hand from the 1-D profiles.
+ */
+const SQUARE = makeImage(6, 6, (x, y) => [x * x + 10 * y, 3 * y * y, 2 * x])
+
+// Same content shifted one column right inside an 8 × 6 frame; its centered square is SQUARE
+const WIDE = makeImage(8, 6, (x, y) => [(x - 1) ** 2 + 10 * y, 3 * y * y, 2 * (x - 1)])
+
+// n and n² resampled to the output positions, which are the same for rows and columns
+interface Profiles {
+  linear: number[]
+  squared: number[]
+}
+
+/**
+ * 6 → 4 sample positions (pixel-centered, scale 1.5): 0.25, 1.75, 3.25, 4.75.
+ * nearest picks 0, 2, 3, 5; bilinear blends neighbours 3:1; area averages the
+ * boxes [0, 1.5), [1.5, 3), [3, 4.5), [4.5, 6) with weights 1 and ½.
+ */
+const GOLDEN: Record<"nearest" | "bilinear" | "area", Profiles> = {
+  nearest: {
+    linear: [0, 2, 3, 5],
+    squared: [0, 4, 9, 25],
+  },
+  bilinear: {
+    linear: [0.25, 1.75, 3.25, 4.75],
+    squared: [0.25, 3.25, 10.75, 22.75],
+  },
+  area: {
+    linear: [1 / 3, 5 / 3, 10 / 3, 14 / 3],
+    squared: [1 / 3, 3, 34 / 3, 22],
+  },
+}
+
+// Expected NCHW planes [R, G, B] for SQUARE resized to 4 × 4
+function expectedPlanes({ linear, squared }: Profiles): number[][] {
+  const size = linear.length
+  const plane = (value: (x: number, y: number) => number) =>
+    Array.from({ length: size * size }, (_, index) => value(index % size, Math.floor(index / size)))
+
+  return [
+    plane((x, y) => squared[x] + 10 * linear[y]),
+    plane((_, y) => 3 * squared[y]),
+    plane((x) => 2 * linear[x]),
+  ]
+}
+
+function expectTensorClose(actual: ArrayLike<number>, expected: number[], tolerance = 1e-4) {
+  expect(actual.length).toBe(expected.length)
+  const mismatch = expected.findIndex((value, index) => Math.abs(actual[index] - value) > tolerance)
+  expect(mismatch, `first mismatch at index ${mismatch}: ${actual[mismatch]} ≠ ${expected[mismatch]}`).toBe(-1)
+}
+
+describe("preprocessImage", () => {
+  it.each(["nearest", "bilinear", "area"] as const)("stretches with %s interpolation", (interpolation) => {
+    const { data, dims } = preprocessImage(SQUARE, 4, { ...IDENTITY, interpolation })
+
+    expect(dims).toEqual([1, 3, 4, 4])
+    expectTensorClose(data, expectedPlanes(GOLDEN[interpolation]).flat())
+  })
+
+  it.each(["nearest", "bilinear", "area"] as const)(
+    "center-crops the shorter side with %s interpolation",
+    (interpolation) => {
+      const config: PreprocessConfig = { ...IDENTITY, resize: "shorter-side-center-crop", interpolation }
+      const { data } = preprocessImage(WIDE, 4, config)
+
+      expectTensorClose(data, expectedPlanes(GOLDEN[interpolation]).flat())
+    },
+  )
+
+  it("resizes the shorter side to resize_size before cropping", () => {
+    // Shorter side 6 → 4, then the centered 3 × 3: columns 0.75–5.25 sampled at 1, 2.5 and 4
+    const config: PreprocessConfig = {
+      ...IDENTITY,
+      resize: "shorter-side-center-crop",
+      resize_size: 4,
+      interpolation: "nearest",
+    }
+    const { data } = preprocessImage(SQUARE, 3, config)
+
+    // 2.5 rounds up to column 3
+    expectTensorClose(data.subarray(0, 3), [1 + 10, 9 + 10, 16 + 10])
+  })
+
+  it("returns the source pixels for a 1:1 stretch", () => {
+    const { data } = preprocessImage(SQUARE, 6, IDENTITY)
+
+    const red = Array.from({ length: 36 }, (_, index) => SQUARE.data[index * 4])
+    expectTensorClose(data.subarray(0, 36), red, 0)
+  })
+
+  it("writes BGR channels in NHWC layout", () => {
+    const config: PreprocessConfig = { ...IDENTITY, channel_order: "BGR", layout: "NHWC" }
+    const { data, dims } = preprocessImage(SQUARE, 4, config)
+
+    const [red, green, blue] = expectedPlanes(GOLDEN.bilinear)
+    const interleaved = red.flatMap((_, index) => [blue[index], green[index], red[index]])
+
+    expect(dims).toEqual([1, 4, 4, 3])
+    expectTensorClose(data, interleaved)
+  })
+
+  it("normalizes with scale, then mean and std in model channel order", () => {
+    const config: PreprocessConfig = {
+      ...IDENTITY,
+      scale: 1 / 255,
+      mean: [0.1, 0.2, 0.3],
+      std: [0.5, 0.25, 0.125],
+      channel_order: "BGR",
+    }
+    const { data } = preprocessImage(SQUARE, 6, config)
+
+    // Pixel (5, 5) is R 75, G 75, B 10; the first plane is blue
+    const last = 35
+    expectTensorClose(
+      [data[last], data[36 + last], data[72 + last]],
+      [(10 / 255 - 0.1) / 0.5, (75 / 255 - 0.2) / 0.25, (75 / 255 - 0.3) / 0.125],
+    )
+  })
+})
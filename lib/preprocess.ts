@@ -0,0 +1,238 @@
+// Image → input tensor preprocessing, configured per model in the registry
+// manifest. Pure functions with no DOM or app imports, so the inference worker
+// (and anything running outside the browser) can share them.
+
+export type ResizeMode = "stretch" | "shorter-side-center-crop"
+export type Interpolation = "nearest" | "bilinear" | "area"
+export type ChannelOrder = "RGB" | "BGR"
+export type TensorLayout = "NCHW" | "NHWC"
+
+export interface PreprocessConfig {
+  resize: ResizeMode
+  resize_size?: number // shorter side before the center crop; defaults to the input size
+  interpolation: Interpolation
+  scale: number // applied to 0–255 pixel values before mean/std, usually 1/255
+  mean: [number, number, number] // in model channel order
+  std: [number, number, number]
+  channel_order: ChannelOrder
+  layout: TensorLayout
+}
+
+export interface RGBAImage {
+  data: Uint8ClampedArray // RGBA, row-major
+  width: number
+  height: number
+}
+
+// Part of an image as fractions (0–1) of its width and height
+export interface Region {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export const FULL_IMAGE: Region = { x: 0, y: 0, width: 1, height: 1 }
+
+export interface PreprocessedTensor {
+  data: Float32Array
+  dims: [number, number, number, number]
+}
+
+// Region of the source image that maps onto the output square
+interface SourceRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+function getSourceRect(width: number, height: number, inputSize: number, config: PreprocessConfig): SourceRect {
+  if (config.resize === "stretch") {
+    return { x: 0, y: 0, width, height }
+  }
+
+  // Resize so the shorter side is resize_size, then take the centered inputSize square
+  const resizeSize = config.resize_size ?? inputSize
+  const scale = resizeSize / Math.min(width, height)
+  const cropSize = Math.min(inputSize / scale, width, height)
+
+  return {
+    x: (width - cropSize) / 2,
+    y: (height - cropSize) / 2,
+    width: cropSize,
+    height: cropSize,
+  }
+}
+
+function clamp(value: number, min: number, max: number) {
+  return value < min ? min : value > max ? max : value
+}
+
+function sampleNearest(image: RGBAImage, x: number, y: number, out: Float64Array) {
+  const sx = clamp(Math.round(x), 0, image.width - 1)
+  const sy = clamp(Math.round(y), 0, image.height - 1)
+  const index = (sy * image.width + sx) * 4
+  out[0] = image.data[index]
+  out[1] = image.data[index + 1]
+  out[2] = image.data[index + 2]
+}
+
+function sampleBilinear(image: RGBAImage, x: number, y: number, out: Float64Array) {
+  const { data, width, height } = image
+  const cx = clamp(x, 0, width - 1)
+  const cy = clamp(y, 0, height - 1)
+  const x0 = Math.floor(cx)
+  const y0 = Math.floor(cy)
+  const x1 = Math.min(x0 + 1, width - 1)
+  const y1 = Math.min(y0 + 1, height - 1)
+  const fx = cx - x0
+  const fy = cy - y0
+
+  const i00 = (y0 * width + x0) * 4
+  const i10 = (y0 * width + x1) * 4
+  const i01 = (y1 * width + x0) * 4
+  const i11 = (y1 * width + x1) * 4
+
+  for (let c = 0; c < 3; c++) {
+    const top = data[i00 + c] * (1 - fx) + data[i10 + c] * fx
+    const bottom = data[i01 + c] * (1 - fx) + data[i11 + c] * fx
+    out[c] = top * (1 - fy) + bottom * fy
+  }
+}
+
+// Average of the source pixels covered by [x0, x1) × [y0, y1), weighted by overlap
+function sampleArea(image: RGBAImage, x0: number, y0: number, x1: number, y1: number, out: Float64Array) {
+  const { data, width } = image
+  out[0] = out[1] = out[2] = 0
+  let total = 0
+
+  for (let sy = Math.floor(y0); sy < Math.ceil(y1); sy++) {
+    const wy = Math.min(sy + 1, y1) - Math.max(sy, y0)
+    for (let sx = Math.floor(x0); sx < Math.ceil(x1); sx++) {
+      const weight = wy * (Math.min(sx + 1, x1) - Math.max(sx, x0))
+      const index = (sy * width + sx) * 4
+      out[0] += data[index] * weight
+      out[1] += data[index + 1] * weight
+      out[2] += data[index + 2] * weight
+      total += weight
+    }
+  }
+
+  if (total > 0) {
+    out[0] /= total
+    out[1] /= total
+    out[2] /= total
+  }
+}
+
+// Copy out the pixels of a region, rounded outwards to whole pixels
+export function cropImage(image: RGBAImage, region: Region): RGBAImage {
+  const x0 = clamp(Math.floor(region.x * image.width), 0, image.width - 1)
+  const y0 = clamp(Math.floor(region.y * image.height), 0, image.height - 1)
+  const x1 = clamp(Math.ceil((region.x + region.width) * image.width), x0 + 1, image.width)
+  const y1 = clamp(Math.ceil((region.y + region.height) * image.height), y0 + 1, image.height)
+
+  const width = x1 - x0
+  const height = y1 - y0
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    const start = ((y0 + y) * image.width + x0) * 4
+    data.set(image.data.subarray(start, start + width * 4), y * width * 4)
+  }
+  return { data, width, height }
+}
+
+export function flipHorizontal(image: RGBAImage): RGBAImage {
+  const { width, height } = image
+  const pixels = new Uint32Array(image.data.slice().buffer)
+  for (let y = 0; y < height; y++) {
+    pixels.subarray(y * width, (y + 1) * width).reverse()
+  }
+  return { data: new Uint8ClampedArray(pixels.buffer), width, height }
+}
+
+// One test-time augmentation: a part of the region (as fractions of it), optionally mirrored
+export interface ImageView {
+  region: Region
+  flip: boolean
+}
+
+export const PLAIN_VIEW: ImageView = { region: FULL_IMAGE, flip: false }
+
+// Whole, mirrored, and three 85% crops; predictions are averaged over them in accuracy mode
+export const AUGMENTED_VIEWS: ImageView[] = [
+  PLAIN_VIEW,
+  { region: FULL_IMAGE, flip: true },
+  { region: { x: 0.075, y: 0.075, width: 0.85, height: 0.85 }, flip: false },
+  { region: { x: 0, y: 0, width: 0.85, height: 0.85 }, flip: false },
+  { region: { x: 0.15, y: 0.15, width: 0.85, height: 0.85 }, flip: false },
+]
+
+// A region given relative to another region, in whole-image fractions
+export function subRegion(outer: Region, inner: Region): Region {
+  return {
+    x: outer.x + inner.x * outer.width,
+    y: outer.y + inner.y * outer.height,
+    width: inner.width * outer.width,
+    height: inner.height * outer.height,
+  }
+}
+
+/**
+ * Resize/crop an RGBA image to inputSize × inputSize and normalize it into a
+ * float tensor. Sample positions are pixel-centered, so a 1:1 stretch returns
+ * the source pixels unchanged. Area resampling falls back to bilinear when
+ * upscaling, as there is nothing to average.
+ */
+export function preprocessImage(
+  image: RGBAImage,
+  inputSize: number,
+  config: PreprocessConfig,
+  onProgress?: (progress: number) => void,
+): PreprocessedTensor {
+  const rect = getSourceRect(image.width, image.height, inputSize, config)
+  const scaleX = rect.width / inputSize
+  const scaleY = rect.height / inputSize
+  const useArea = config.interpolation === "area" && scaleX > 1 && scaleY > 1
+
+  const plane = inputSize * inputSize
+  const data = new Float32Array(3 * plane)
+  const pixel = new Float64Array(3)
+  const channels = config.channel_order === "BGR" ? [2, 1, 0] : [0, 1, 2]
+
+  for (let y = 0; y < inputSize; y++) {
+    for (let x = 0; x < inputSize; x++) {
+      if (useArea) {
+        const sx0 = rect.x + x * scaleX
+        const sy0 = rect.y + y * scaleY
+        sampleArea(image, sx0, sy0, sx0 + scaleX, sy0 + scaleY, pixel)
+      } else {
+        const sx = rect.x + (x + 0.5) * scaleX - 0.5
+        const sy = rect.y + (y + 0.5) * scaleY - 0.5
+        if (config.interpolation === "nearest") {
+          sampleNearest(image, sx, sy, pixel)
+        } else {
+          sampleBilinear(image, sx, sy, pixel)
+        }
+      }
+
+      const offset = y * inputSize + x
+      for (let c = 0; c < 3; c++) {
+        const value = (pixel[channels[c]] * config.scale - config.mean[c]) / config.std[c]
+        if (config.layout === "NCHW") {
+          data[c * plane + offset] = value
+        } else {
+          data[offset * 3 + c] = value
+        }
+      }
+    }
+
+    if (onProgress && y % 32 === 0) onProgress(y / inputSize)
+  }
+
+  return {
+    data,
+    dims: config.layout === "NCHW" ? [1, 3, inputSize, inputSize] : [1, inputSize, inputSize, 3],
+  }
+}
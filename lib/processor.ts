@@ -14,8 +14,147 @@ export interface ProcessedImageResult {
   originalSize?: number
 }
 
+// Decoded by every browser we support; HEIC/HEIF and AVIF only by some, so they are tried and may fail
+const IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"]
+const OPTIONAL_IMAGE_TYPES = ["image/heic", "image/heif", "image/avif"]
+const OPTIONAL_IMAGE_EXTENSIONS = /\.(heic|heif|avif)$/i
+
+// For <input type="file" accept>
+export const IMAGE_ACCEPT = [...IMAGE_TYPES, ...OPTIONAL_IMAGE_TYPES, ".heic", ".heif", ".avif"].join(",")
+export const MAX_IMAGE_FILE_SIZE = 5 * 1024 * 1024
+
+// EXIF APP1 segment holding only Orientation = 6 (rotate 90° clockwise)
+const ROTATE_90_EXIF = new Uint8Array([
+  0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00, 0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, 0x00,
+  0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+])
+
+interface DecodedImage {
+  source: CanvasImageSource
+  width: number
+  height: number
+  close: () => void
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to create blob"))), type, quality)
+  })
+}
+
+// Local decode rather than fetch(), which the CSP's connect-src doesn't allow for data: URLs
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, payload] = dataUrl.split(",", 2)
+  const type = header.match(/^data:([^;,]+)/)?.[1] ?? ""
+  if (!header.endsWith(";base64")) return new Blob([decodeURIComponent(payload)], { type })
+
+  const binary = atob(payload)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return new Blob([bytes], { type })
+}
+
+async function decodeImage(blob: Blob): Promise<DecodedImage> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" })
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, close: () => bitmap.close() }
+    } catch {
+      // Some browsers only decode HEIC through <img>
+    }
+  }
+
+  const url = URL.createObjectURL(blob)
+  try {
+    const img = new Image()
+    await new Promise((resolve, reject) => {
+      img.onload = resolve
+      img.onerror = reject
+      img.src = url
+    })
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, close: () => {} }
+  } catch {
+    throw new Error("เบราว์เซอร์นี้เปิดไฟล์รูปนี้ไม่ได้ กรุณาใช้ไฟล์ JPG หรือ PNG")
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+// Orientation tag (1–8) from the first IFD of a TIFF block, 1 when absent
+function readTiffOrientation(view: DataView, tiff: number): number {
+  if (tiff + 8 > view.byteLength) return 1
+  const littleEndian = view.getUint16(tiff) === 0x4949
+  const ifd = tiff + view.getUint32(tiff + 4, littleEndian)
+  if (ifd + 2 > view.byteLength) return 1
+
+  const entries = view.getUint16(ifd, littleEndian)
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12
+    if (entry + 12 > view.byteLength) break
+    if (view.getUint16(entry, littleEndian) === 0x0112) {
+      const orientation = view.getUint16(entry + 8, littleEndian)
+      return orientation >= 1 && orientation <= 8 ? orientation : 1
+    }
+  }
+  return 1
+}
+
+// EXIF orientation of a JPEG, 1 for other formats; metadata sits before the image data
+async function readJpegOrientation(blob: Blob): Promise<number> {
+  const view = new DataView(await blob.slice(0, 128 * 1024).arrayBuffer())
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    if (marker >> 8 !== 0xff || marker === 0xffda) break // not a marker, or start of scan
+
+    // APP1 "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return readTiffOrientation(view, offset + 10)
+    }
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return 1
+}
+
+// Decode a tiny JPEG tagged "rotate 90°": browsers that honour EXIF themselves return it taller than wide
+let orientationHandledByBrowser: Promise<boolean> | null = null
+
+function browserAppliesOrientation(): Promise<boolean> {
+  orientationHandledByBrowser ??= (async () => {
+    const canvas = document.createElement("canvas")
+    canvas.width = 2
+    canvas.height = 1
+    const bytes = new Uint8Array(await (await canvasToBlob(canvas, "image/jpeg")).arrayBuffer())
+    const tagged = new Blob([bytes.subarray(0, 2), ROTATE_90_EXIF, bytes.subarray(2)], { type: "image/jpeg" })
+
+    const image = await decodeImage(tagged)
+    image.close()
+    return image.height > image.width
+  })().catch(() => true)
+  return orientationHandledByBrowser
+}
+
+// Canvas transform that draws an image stored with this EXIF orientation upright in a width × height canvas
+function orientationTransform(orientation: number, width: number, height: number): DOMMatrix2DInit {
+  const [a, b, c, d, e, f] = {
+    2: [-1, 0, 0, 1, width, 0],
+    3: [-1, 0, 0, -1, width, height],
+    4: [1, 0, 0, -1, 0, height],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, width, 0],
+    7: [0, -1, -1, 0, width, height],
+    8: [0, -1, 1, 0, 0, height],
+  }[orientation] ?? [1, 0, 0, 1, 0, 0]
+  return { a, b, c, d, e, f }
+}
+
 /**
- * Process and compress image for ML inference
+ * Intake for every photo, camera or upload: decode (including WebP, and HEIC
+ * or AVIF where the browser can), turn upright per EXIF orientation, scale
+ * down and re-encode. The re-encoded file carries no metadata, so GPS
+ * location and other EXIF tags never reach storage.
  */
 export async function processImageForML(
   imageSource: string | File | Blob,
@@ -23,102 +162,87 @@ export async function processImageForML(
 ): Promise<ProcessedImageResult> {
   const { maxWidth = 640, maxHeight = 640, quality = 0.85, format = "jpeg" } = options
 
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    img.crossOrigin = "anonymous"
+  let blob: Blob
+  if (typeof imageSource !== "string") {
+    blob = imageSource
+  } else if (imageSource.startsWith("data:")) {
+    blob = dataUrlToBlob(imageSource)
+  } else {
+    blob = await (await fetch(imageSource)).blob()
+  }
 
-    img.onload = () => {
-      try {
-        const canvas = document.createElement("canvas")
-        const ctx = canvas.getContext("2d")
-
-        if (!ctx) {
-          reject(new Error("Cannot create canvas context"))
-          return
-        }
-
-        // Calculate new dimensions maintaining aspect ratio
-        let { width, height } = img
-        const originalSize = width * height
-
-        // Scale down if image is too large
-        const scale = Math.min(maxWidth / width, maxHeight / height, 1)
-        width = Math.round(width * scale)
-        height = Math.round(height * scale)
-
-        // Set canvas size
-        canvas.width = width
-        canvas.height = height
-
-        // Fill with white background for JPEG
-        if (format === "jpeg") {
-          ctx.fillStyle = "#FFFFFF"
-          ctx.fillRect(0, 0, width, height)
-        }
-
-        // Draw image with high quality
-        ctx.imageSmoothingEnabled = true
-        ctx.imageSmoothingQuality = "high"
-        ctx.drawImage(img, 0, 0, width, height)
-
-        // Convert to blob
-        canvas.toBlob(
-          (blob) => {
-            if (!blob) {
-              reject(new Error("Failed to create blob"))
-              return
-            }
-
-            const dataUrl = canvas.toDataURL(`image/${format}`, quality)
-            resolve({
-              dataUrl,
-              blob,
-              width,
-              height,
-              size: blob.size,
-              originalSize,
-            })
-          },
-          `image/${format}`,
-          quality,
-        )
-      } catch (error) {
-        reject(error)
-      }
+  const [image, orientation] = await Promise.all([
+    decodeImage(blob),
+    browserAppliesOrientation().then((applied) => (applied ? 1 : readJpegOrientation(blob))),
+  ])
+
+  try {
+    const canvas = document.createElement("canvas")
+    const ctx = canvas.getContext("2d")
+
+    if (!ctx) {
+      throw new Error("Cannot create canvas context")
     }
 
-    img.onerror = () => {
-      reject(new Error("Failed to load image"))
+    // Orientations 5–8 turn the image by 90°, swapping its displayed width and height
+    const rotated = orientation >= 5
+    const uprightWidth = rotated ? image.height : image.width
+    const uprightHeight = rotated ? image.width : image.height
+
+    // Scale down if image is too large
+    const scale = Math.min(maxWidth / uprightWidth, maxHeight / uprightHeight, 1)
+    const width = Math.round(uprightWidth * scale)
+    const height = Math.round(uprightHeight * scale)
+
+    // Set canvas size
+    canvas.width = width
+    canvas.height = height
+
+    // Fill with white background for JPEG
+    if (format === "jpeg") {
+      ctx.fillStyle = "#FFFFFF"
+      ctx.fillRect(0, 0, width, height)
     }
 
-    // Handle different input types
-    if (typeof imageSource === "string") {
-      img.src = imageSource
-    } else {
-      const reader = new FileReader()
-      reader.onload = (e) => {
-        img.src = e.target?.result as string
-      }
-      reader.onerror = () => reject(new Error("Failed to read file"))
-      reader.readAsDataURL(imageSource)
+    // Draw image upright with high quality
+    ctx.imageSmoothingEnabled = true
+    ctx.imageSmoothingQuality = "high"
+    ctx.setTransform(orientationTransform(orientation, width, height))
+    ctx.drawImage(image.source, 0, 0, rotated ? height : width, rotated ? width : height)
+
+    const output = await canvasToBlob(canvas, `image/${format}`, quality)
+    return {
+      dataUrl: canvas.toDataURL(`image/${format}`, quality),
+      blob: output,
+      width,
+      height,
+      size: output.size,
+      originalSize: image.width * image.height,
     }
-  })
+  } finally {
+    image.close()
+  }
 }
 
 /**
  * Validate image file before processing
  */
 export function validateImageFile(file: File): { valid: boolean; error?: string } {
-  // Check file type
-  if (!file.type.match(/^image\/(jpeg|jpg|png|webp)$/)) {
+  // Check file type; some browsers leave it empty for HEIC, so fall back to the extension
+  const type = file.type.toLowerCase()
+  const supported =
+    IMAGE_TYPES.includes(type) ||
+    OPTIONAL_IMAGE_TYPES.includes(type) ||
+    (type === "" && OPTIONAL_IMAGE_EXTENSIONS.test(file.name))
+  if (!supported) {
     return {
       valid: false,
-      error: "รองรับเฉพาะไฟล์ JPG, PNG และ WebP เท่านั้น",
+      error: "รองรับเฉพาะไฟล์ JPG, PNG, WebP, HEIC และ AVIF เท่านั้น",
     }
   }
 
   // Check file size (5MB limit)
-  if (file.size > 5 * 1024 * 1024) {
+  if (file.size > MAX_IMAGE_FILE_SIZE) {
     return {
       valid: false,
       error: "ไฟล์รูปภาพต้องมีขนาดไม่เกิน 5MB",
@@ -128,6 +252,105 @@ export function validateImageFile(file: File): { valid: boolean; error?: string
   return { valid: true }
 }
 
+export interface ImageQuality {
+  sharpness: number // variance of the Laplacian at QUALITY_SIZE; low means blurry
+  luminance: number // mean brightness, 0–255
+  glare: number // fraction of clipped, near-white pixels
+}
+
+export type QualityIssue = "blurry" | "dark" | "overexposed" | "glare"
+
+export const QUALITY_HINTS: Record<QualityIssue, { title: string; hint: string }> = {
+  blurry: { title: "ภาพเบลอ", hint: "ถือกล้องให้นิ่งและแตะเพื่อโฟกัสที่อาหาร" },
+  dark: { title: "ภาพมืดเกินไป", hint: "ถ่ายในที่สว่างขึ้นหรือเปิดไฟ" },
+  overexposed: { title: "ภาพสว่างเกินไป", hint: "หลีกเลี่ยงแสงแดดหรือไฟส่องตรง" },
+  glare: { title: "มีแสงสะท้อนมาก", hint: "เปลี่ยนมุมกล้องเพื่อเลี่ยงแสงสะท้อนบนจาน" },
+}
+
+// Metrics are measured on a copy this size (longest side), so thresholds don't depend on resolution
+const QUALITY_SIZE = 256
+const MIN_SHARPNESS = 60
+const MIN_LUMINANCE = 50
+const MAX_LUMINANCE = 215
+const MAX_GLARE = 0.15
+const GLARE_LEVEL = 250
+
+/**
+ * Blur, brightness and glare of a photo, from its luma (Rec. 601). Pass a
+ * copy around QUALITY_SIZE; assessImageQuality takes care of that.
+ */
+export function measureImageQuality(imageData: ImageData): ImageQuality {
+  const { data, width, height } = imageData
+  const luma = new Float32Array(width * height)
+  let total = 0
+  let clipped = 0
+
+  for (let i = 0; i < luma.length; i++) {
+    const value = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+    luma[i] = value
+    total += value
+    if (value >= GLARE_LEVEL) clipped++
+  }
+
+  // 4-neighbour Laplacian over the interior
+  let sum = 0
+  let sumSquares = 0
+  let count = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const laplacian = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i]
+      sum += laplacian
+      sumSquares += laplacian * laplacian
+      count++
+    }
+  }
+  const mean = count > 0 ? sum / count : 0
+
+  return {
+    sharpness: count > 0 ? sumSquares / count - mean * mean : 0,
+    luminance: luma.length > 0 ? total / luma.length : 0,
+    glare: luma.length > 0 ? clipped / luma.length : 0,
+  }
+}
+
+export function getQualityIssues(quality: ImageQuality): QualityIssue[] {
+  const issues: QualityIssue[] = []
+  if (quality.luminance < MIN_LUMINANCE) {
+    issues.push("dark")
+  } else if (quality.luminance > MAX_LUMINANCE) {
+    issues.push("overexposed")
+  } else if (quality.glare > MAX_GLARE) {
+    issues.push("glare")
+  }
+  // Bad exposure also flattens edges, so that is the one to fix first
+  const exposureIssue = issues.includes("dark") || issues.includes("overexposed")
+  if (quality.sharpness < MIN_SHARPNESS && !exposureIssue) {
+    issues.push("blurry")
+  }
+  return issues
+}
+
+/**
+ * Check a photo before it is classified. Returns the problems worth telling
+ * the user about; an empty list means the photo looks usable.
+ */
+export async function assessImageQuality(imageSource: string): Promise<QualityIssue[]> {
+  const img = new Image()
+  img.crossOrigin = "anonymous"
+
+  await new Promise((resolve, reject) => {
+    img.onload = resolve
+    img.onerror = () => reject(new Error("Failed to load image"))
+    img.src = imageSource
+  })
+
+  const scale = Math.min(QUALITY_SIZE / Math.max(img.naturalWidth, img.naturalHeight), 1)
+  const width = Math.max(1, Math.round(img.naturalWidth * scale))
+  const height = Math.max(1, Math.round(img.naturalHeight * scale))
+  return getQualityIssues(measureImageQuality(extractImageData(img, width, height)))
+}
+
 /**
  * Get image dimensions without loading full image
  */
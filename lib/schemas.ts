@@ -0,0 +1,261 @@
+import { z } from "zod"
+import { validateMealTypeBoundaries } from "@/lib/meal-type"
+
+const nutrientPer100g = (label: string, max: number) =>
+  z
+    .number({ invalid_type_error: `กรุณาใส่${label}เป็นตัวเลข`, required_error: `กรุณาใส่${label}` })
+    .finite(`กรุณาใส่${label}เป็นตัวเลข`)
+    .min(0, `${label}ต้องไม่ติดลบ`)
+    .max(max, `${label}ต้องไม่เกิน ${max} ต่อ 100 กรัม`)
+
+/**
+ * Validation for user-defined foods (all nutrients per 100 g)
+ */
+export const customFoodSchema = z
+  .object({
+    name_th: z.string().trim().min(1, "กรุณาใส่ชื่ออาหาร").max(100, "ชื่ออาหารยาวเกินไป"),
+    name_en: z.string().trim().max(100, "ชื่อภาษาอังกฤษยาวเกินไป").default(""),
+    category: z.string().trim().min(1, "กรุณาใส่หมวดหมู่").max(50, "หมวดหมู่ยาวเกินไป"),
+    kcal_per_100g: nutrientPer100g("แคลอรี่", 900),
+    protein: nutrientPer100g("โปรตีน", 100),
+    carb: nutrientPer100g("คาร์โบไฮเดรต", 100),
+    fat: nutrientPer100g("ไขมัน", 100),
+    fiber: nutrientPer100g("ใยอาหาร", 100),
+    tags: z.array(z.string().trim().min(1).max(30)).max(20).default([]),
+  })
+  .refine((food) => food.protein + food.carb + food.fat + food.fiber <= 100, {
+    message: "ผลรวมของสารอาหารต้องไม่เกิน 100 กรัม ต่อ 100 กรัม",
+    path: ["carb"],
+  })
+
+export type CustomFoodInput = z.input<typeof customFoodSchema>
+export type CustomFoodData = z.output<typeof customFoodSchema>
+
+/**
+ * Validation for recipes (ingredients in grams, cooked_weight is the finished dish)
+ */
+export const recipeSchema = z.object({
+  name_th: z.string().trim().min(1, "กรุณาใส่ชื่อเมนู").max(100, "ชื่อเมนูยาวเกินไป"),
+  name_en: z.string().trim().max(100, "ชื่อภาษาอังกฤษยาวเกินไป").default(""),
+  category: z.string().trim().min(1, "กรุณาใส่หมวดหมู่").max(50, "หมวดหมู่ยาวเกินไป").default("เมนูทำเอง"),
+  ingredients: z
+    .array(
+      z.object({
+        food_id: z.string().min(1),
+        grams: z
+          .number({ invalid_type_error: "กรุณาใส่น้ำหนักวัตถุดิบเป็นตัวเลข" })
+          .positive("น้ำหนักวัตถุดิบต้องมากกว่า 0")
+          .max(10000, "น้ำหนักวัตถุดิบต้องไม่เกิน 10 กิโลกรัม"),
+      }),
+    )
+    .min(1, "กรุณาเพิ่มวัตถุดิบอย่างน้อย 1 รายการ"),
+  cooked_weight: z
+    .number({ invalid_type_error: "กรุณาใส่น้ำหนักหลังปรุงเป็นตัวเลข" })
+    .positive("น้ำหนักหลังปรุงต้องมากกว่า 0")
+    .max(50000, "น้ำหนักหลังปรุงต้องไม่เกิน 50 กิโลกรัม"),
+})
+
+export type RecipeInput = z.input<typeof recipeSchema>
+
+/**
+ * Backup file (see lib/backup.ts). Dates are ISO strings in JSON and coerced back.
+ */
+const backupFoodSchema = z.object({
+  id: z.string().min(1),
+  name_th: z.string(),
+  name_en: z.string(),
+  category: z.string(),
+  kcal_per_100g: z.number().min(0),
+  protein: z.number().min(0),
+  carb: z.number().min(0),
+  fat: z.number().min(0),
+  fiber: z.number().min(0),
+  tags: z.array(z.string()),
+  source: z.enum(["seed", "user", "recipe"]).optional(),
+  retired_at: z.coerce.date().optional(),
+})
+
+const backupEntrySchema = z.object({
+  id: z.number().int().optional(),
+  food_id: z.string(),
+  food_name: z.string(),
+  grams: z.number().positive(),
+  kcal: z.number().min(0),
+  protein: z.number().min(0),
+  carb: z.number().min(0),
+  fat: z.number().min(0),
+  fiber: z.number().min(0),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  time: z.string().regex(/^\d{2}:\d{2}/),
+  timezone: z.string().optional(),
+  meal_type: z.enum(["breakfast", "lunch", "dinner", "snack"]).optional(),
+  unit: z.enum(["g", "ml"]).optional(),
+  source: z.enum(["photo", "manual", "legacy", "import"]).optional(),
+  portion_estimate: z
+    .object({
+      grams: z.number().positive(),
+      min: z.number().positive(),
+      max: z.number().positive(),
+      method: z.enum(["typical", "reference"]),
+      reference: z.enum(["plate", "spoon", "card"]).optional(),
+    })
+    .optional(),
+  created_at: z.coerce.date(),
+})
+
+const backupProfileSchema = z.object({
+  gender: z.enum(["male", "female"]),
+  age: z.number().positive(),
+  weight: z.number().positive(),
+  height: z.number().positive(),
+  activity_level: z.number().positive(),
+  bmr: z.number(),
+  tdee: z.number(),
+  daily_kcal_goal: z.number().positive(),
+  updated_at: z.coerce.date(),
+})
+
+const backupRecipeSchema = z.object({
+  id: z.string().min(1),
+  name_th: z.string(),
+  name_en: z.string(),
+  category: z.string(),
+  ingredients: z.array(z.object({ food_id: z.string(), grams: z.number().positive() })),
+  cooked_weight: z.number().positive(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+})
+
+const mealTimeRangeSchema = z.object({ start: z.string(), end: z.string() })
+
+export const mealTypeBoundariesSchema = z
+  .object({ breakfast: mealTimeRangeSchema, lunch: mealTimeRangeSchema, dinner: mealTimeRangeSchema })
+  .refine((boundaries) => validateMealTypeBoundaries(boundaries) === null, "Invalid meal time ranges")
+
+export const backupSchema = z.object({
+  format: z.literal("calkal-backup"),
+  version: z.literal(1),
+  schema_version: z.number().int().positive(),
+  exported_at: z.coerce.date(),
+  data: z.object({
+    foods: z.array(backupFoodSchema),
+    recipes: z.array(backupRecipeSchema).default([]),
+    entries: z.array(backupEntrySchema),
+    profile: backupProfileSchema.nullable(),
+    settings: z.array(z.object({ key: z.string(), value: z.unknown(), updated_at: z.coerce.date() })).default([]),
+  }),
+})
+
+export type BackupFile = z.output<typeof backupSchema>
+
+/**
+ * Model class → Food.id mapping (public/models/food-label-map.json). Several
+ * labels may share a food; null marks a class with no matching food.
+ */
+export const labelMapSchema = z.object({
+  version: z.string(),
+  labels_version: z.string(),
+  catalog_version: z.string(),
+  mappings: z.record(z.string(), z.string().min(1).nullable()),
+})
+
+export type LabelMap = z.infer<typeof labelMapSchema>
+
+/**
+ * Classifier model registry (public/models/manifest.json)
+ */
+const rgbTriple = z.tuple([z.number(), z.number(), z.number()])
+
+// How photos become input tensors (lib/preprocess.ts). Entries written before
+// this block existed get the defaults.
+export const preprocessingSchema = z
+  .object({
+    resize: z.enum(["stretch", "shorter-side-center-crop"]).default("shorter-side-center-crop"),
+    resize_size: z.number().int().positive().optional(), // shorter side before cropping; defaults to the input size
+    interpolation: z.enum(["nearest", "bilinear", "area"]).default("bilinear"),
+    scale: z.number().positive().default(1 / 255),
+    channel_order: z.enum(["RGB", "BGR"]).default("RGB"),
+    layout: z.enum(["NCHW", "NHWC"]).default("NCHW"),
+  })
+  .default({})
+
+const dimension = z.number().int().positive()
+
+// Turns raw scores into confidences the UI can act on (lib/postprocess.ts). The
+// defaults leave the softmax uncalibrated.
+export const calibrationSchema = z
+  .object({
+    temperature: z.number().positive().default(1),
+    auto_select: z.number().min(0).max(1).default(0.7),
+    max_entropy: z.number().min(0).max(1).default(0.8),
+    min_margin: z.number().min(0).max(1).default(0.1),
+  })
+  .default({})
+
+function isSquareInput([, a, b, c]: [number, number, number, number], layout: "NCHW" | "NHWC") {
+  return layout === "NCHW" ? a === 3 && b === c : c === 3 && a === b
+}
+
+const inputShapeMessage = {
+  message: "input_shape must be a square 3-channel input in the declared layout",
+  path: ["input_shape"],
+}
+
+// Optional region proposer for plates with several dishes. Its ONNX outputs
+// must be "boxes" [1, N, 4] as normalized x1, y1, x2, y2 and "scores" [1, N].
+export const detectorSchema = z
+  .object({
+    url: z.string().min(1),
+    size: z.number().int().min(0),
+    sha256: z.string().regex(/^[0-9a-f]{64}$/),
+    input_shape: z.tuple([z.literal(1), dimension, dimension, dimension]),
+    normalization: z.object({ mean: rgbTriple, std: rgbTriple }),
+    preprocessing: preprocessingSchema,
+    score_threshold: z.number().min(0).max(1).default(0.3),
+    iou_threshold: z.number().min(0).max(1).default(0.5),
+    max_regions: z.number().int().positive().default(6),
+  })
+  .refine(({ input_shape, preprocessing }) => isSquareInput(input_shape, preprocessing.layout), inputShapeMessage)
+  .refine(({ preprocessing }) => preprocessing.resize === "stretch", {
+    message: "Detector boxes are read relative to the whole photo, so resize must be stretch",
+    path: ["preprocessing", "resize"],
+  })
+
+export const modelEntrySchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string(),
+    version: z.string().min(1),
+    url: z.string().min(1),
+    size: z.number().int().min(0), // bytes, 0 when unknown
+    sha256: z.string().regex(/^[0-9a-f]{64}$/),
+    input_shape: z.tuple([z.literal(1), dimension, dimension, dimension]), // NCHW or NHWC, per preprocessing.layout
+    normalization: z.object({ mean: rgbTriple, std: rgbTriple }), // in preprocessing.channel_order
+    preprocessing: preprocessingSchema,
+    labels: z.string().min(1),
+    labels_sha256: z.string().regex(/^[0-9a-f]{64}$/),
+    label_map: z.string().min(1),
+    label_map_sha256: z.string().regex(/^[0-9a-f]{64}$/),
+    top_k: z.number().int().positive().default(5),
+    threshold: z.number().min(0).max(1).default(0.1),
+    calibration: calibrationSchema,
+    embedding_output: z.string().min(1).optional(), // penultimate-layer output name; enables personalization
+    detector: detectorSchema.optional(),
+  })
+  .refine(({ input_shape, preprocessing }) => isSquareInput(input_shape, preprocessing.layout), inputShapeMessage)
+
+// Empty until a model artifact is published; default_model then names one of the entries
+export const modelManifestSchema = z
+  .object({
+    version: z.literal(1),
+    default_model: z.string().min(1).optional(),
+    models: z.array(modelEntrySchema),
+  })
+  .refine(
+    ({ default_model, models }) => default_model === undefined || models.some((model) => model.id === default_model),
+    { message: "default_model must be one of the models", path: ["default_model"] },
+  )
+
+export type ModelEntry = z.infer<typeof modelEntrySchema>
+export type DetectorEntry = z.infer<typeof detectorSchema>
+export type ModelManifest = z.infer<typeof modelManifestSchema>
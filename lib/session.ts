@@ -1,231 +1,383 @@
-import * as ort from "onnxruntime-web"
+import type {
+  ClassificationResult,
+  DetectedRegion,
+  InferenceProgress,
+  ModelConfig,
+  RegionClassification,
+  WorkerRequest,
+  WorkerResponse,
+} from "@/lib/ml-protocol"
+import { resolveLabel } from "@/lib/label-map"
+import { ensureActiveModel, getActiveModelConfig, type ModelRef } from "@/lib/model-registry"
+import { rerankWithPersonalExamples } from "@/lib/personalization"
+import { recordClassifierLatency, type AccuracyMode } from "@/lib/accuracy-mode"
+import { FULL_IMAGE, type Region } from "@/lib/preprocess"
+import type { Certainty } from "@/lib/postprocess"
+import { InvalidModelError } from "@/lib/model-cache"
+import { getBrowserSupportIssue, markMLAvailable, markMLUnavailable, type MLStatus } from "@/lib/ml-capability"
+
+export type {
+  ClassificationResult,
+  DetectedRegion,
+  InferenceProgress,
+  InferenceStage,
+  ModelConfig,
+  RegionClassification,
+} from "@/lib/ml-protocol"
+export type { Region } from "@/lib/preprocess"
+export type { Certainty } from "@/lib/postprocess"
+export type { AccuracyMode } from "@/lib/accuracy-mode"
+
+// The model is kept with the results so a confirmed food can be stored as a personal example
+export interface FoodClassification extends RegionClassification {
+  model: ModelRef
+}
+
+export interface ClassifyOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: InferenceProgress) => void
+}
+
+export interface PredictOptions extends ClassifyOptions {
+  mode?: AccuracyMode // defaults to fast
+}
 
-export interface ClassificationResult {
-  label: string
-  confidence: number
-  food_id?: string
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: InferenceProgress) => void
 }
 
-export interface ModelConfig {
-  modelPath: string
-  inputSize: number
-  topK: number
-  threshold: number
+function abortError() {
+  return new DOMException("Classification cancelled", "AbortError")
 }
 
+function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError"
+}
+
+/**
+ * Main-thread handle to the inference worker (lib/ml.worker.ts). Model loading,
+ * preprocessing, inference and softmax all run in the worker; this class only
+ * posts typed requests and routes the replies back to their callers.
+ */
 class MLSession {
-  private session: ort.InferenceSession | null = null
+  private worker: Worker | null = null
   private isInitialized = false
   private config: ModelConfig
-  private labels: string[] = []
+  private nextId = 1
+  private pending = new Map<number, PendingRequest>()
 
   constructor(config: ModelConfig) {
     this.config = config
   }
 
-  async initialize(): Promise<void> {
-    if (this.isInitialized) return
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("./ml.worker.ts", import.meta.url), { type: "module" })
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data)
+      this.worker.onerror = (event) => {
+        console.error("ML worker crashed:", event.message)
+        this.failAll(new Error(event.message || "ML worker crashed"))
+      }
+    }
+    return this.worker
+  }
 
-    try {
-      console.log("Initializing ONNX Runtime...")
-
-      // Configure execution providers with fallback
-      const executionProviders: ort.ExecutionProviderConfig[] = []
-
-      // Try WebGPU first (if available)
-      if ("gpu" in navigator) {
-        try {
-          const adapter = await (navigator as any).gpu?.requestAdapter()
-          if (adapter) {
-            executionProviders.push("webgpu")
-            console.log("WebGPU available, using WebGPU execution provider")
-          }
-        } catch (error) {
-          console.log("WebGPU not available, falling back to WASM")
-        }
+  private handleMessage(message: WorkerResponse) {
+    const request = this.pending.get(message.id)
+    if (!request) return
+
+    if (message.type === "progress") {
+      request.onProgress?.(message.progress)
+      return
+    }
+
+    this.pending.delete(message.id)
+    if (message.type === "error") {
+      request.reject(message.invalidModel ? new InvalidModelError(message.message) : new Error(message.message))
+    } else if (message.type === "cancelled") {
+      request.reject(abortError())
+    } else {
+      request.resolve(message)
+    }
+  }
+
+  private failAll(error: Error) {
+    for (const request of this.pending.values()) {
+      request.reject(error)
+    }
+    this.pending.clear()
+    this.worker?.terminate()
+    this.worker = null
+    this.isInitialized = false
+  }
+
+  private send(
+    request: WorkerRequest,
+    options: ClassifyOptions = {},
+    transfer: Transferable[] = [],
+  ): Promise<WorkerResponse> {
+    const { signal, onProgress } = options
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError())
+        return
       }
 
-      // Always add WASM as fallback
-      executionProviders.push("wasm")
-
-      // Set ONNX Runtime options
-      ort.env.wasm.wasmPaths = "/onnx-wasm/"
-      ort.env.wasm.numThreads = Math.min(navigator.hardwareConcurrency || 4, 4)
-      ort.env.logLevel = "warning"
-
-      // Load the model
-      console.log(`Loading model from ${this.config.modelPath}...`)
-      this.session = await ort.InferenceSession.create(this.config.modelPath, {
-        executionProviders,
-        graphOptimizationLevel: "all",
-        enableCpuMemArena: true,
-        enableMemPattern: true,
+      const onAbort = () => {
+        // Reject right away; the worker drops the result whenever it notices
+        this.pending.delete(request.id)
+        this.worker?.postMessage({ type: "cancel", id: request.id } satisfies WorkerRequest)
+        reject(abortError())
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+
+      this.pending.set(request.id, {
+        resolve: (response) => {
+          signal?.removeEventListener("abort", onAbort)
+          resolve(response)
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort)
+          reject(error)
+        },
+        onProgress,
       })
+      this.getWorker().postMessage(request, transfer)
+    })
+  }
 
-      // Load labels
-      await this.loadLabels()
+  async initialize(options: ClassifyOptions = {}): Promise<void> {
+    if (this.isInitialized) return
 
+    try {
+      const response = await this.send({ type: "init", id: this.nextId++, config: this.config }, options)
+      if (response.type === "ready") {
+        console.log(`ML Session initialized successfully (${response.labels} labels)`)
+      }
       this.isInitialized = true
-      console.log("ML Session initialized successfully")
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.error("Failed to initialize ML session:", error)
+      if (error instanceof InvalidModelError) {
+        throw new InvalidModelError("ไฟล์โมเดล AI เสียหรือใช้งานไม่ได้", { cause: error })
+      }
       throw new Error("ไม่สามารถโหลดโมเดล AI ได้ กรุณาลองใหม่อีกครั้ง")
     }
   }
 
-  private async loadLabels(): Promise<void> {
-    try {
-      const response = await fetch("/models/food-labels.json")
-      const data = await response.json()
-      this.labels = data.labels || []
-      console.log(`Loaded ${this.labels.length} food labels`)
-    } catch (error) {
-      console.error("Failed to load labels:", error)
-      // Fallback labels for Thai foods
-      this.labels = [
-        "ข้าวผัดกุ้ง",
-        "ผัดไทย",
-        "ต้มยำกุ้ง",
-        "แกงเขียวหวานไก่",
-        "ส้มตำไทย",
-        "ข้าวขาวสวย",
-        "ไก่ย่าง",
-        "ข้าวมันไก่",
-        "ลาบหมู",
-        "มะม่วงข้าวเหนียว",
-      ]
-    }
+  // Copy the pixels so the caller's ImageData stays usable after the transfer
+  private toWorkerImage(imageData: ImageData) {
+    return { data: new Uint8ClampedArray(imageData.data), width: imageData.width, height: imageData.height }
   }
 
-  async predict(imageData: ImageData): Promise<ClassificationResult[]> {
-    if (!this.session || !this.isInitialized) {
+  // Accuracy mode averages each region over flipped and cropped views, at several times the cost
+  async predict(
+    imageData: ImageData,
+    regions: Region[],
+    options: PredictOptions = {},
+  ): Promise<RegionClassification[]> {
+    if (!this.isInitialized) {
       throw new Error("โมเดล AI ยังไม่พร้อมใช้งาน")
     }
 
-    try {
-      // Preprocess image data
-      const tensor = this.preprocessImage(imageData)
-
-      // Run inference
-      const feeds = { input: tensor }
-      const results = await this.session.run(feeds)
+    const image = this.toWorkerImage(imageData)
+    const augment = options.mode === "accurate"
 
-      // Get output tensor
-      const outputTensor = results[Object.keys(results)[0]]
-      const predictions = outputTensor.data as Float32Array
-
-      // Process results
-      return this.processResults(predictions)
+    try {
+      const response = await this.send({ type: "classify", id: this.nextId++, image, regions, augment }, options, [
+        image.data.buffer,
+      ])
+      return response.type === "result" ? response.classifications : []
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.error("Prediction error:", error)
       throw new Error("เกิดข้อผิดพลาดในการวิเคราะห์รูปภาพ")
     }
   }
 
-  private preprocessImage(imageData: ImageData): ort.Tensor {
-    const { data, width, height } = imageData
-    const inputSize = this.config.inputSize
-
-    // Create tensor data array
-    const tensorData = new Float32Array(1 * 3 * inputSize * inputSize)
-
-    // Resize and normalize image
-    const scaleX = width / inputSize
-    const scaleY = height / inputSize
-
-    for (let y = 0; y < inputSize; y++) {
-      for (let x = 0; x < inputSize; x++) {
-        const srcX = Math.floor(x * scaleX)
-        const srcY = Math.floor(y * scaleY)
-        const srcIndex = (srcY * width + srcX) * 4
+  async detect(imageData: ImageData, options: ClassifyOptions = {}): Promise<DetectedRegion[]> {
+    if (!this.isInitialized) {
+      throw new Error("โมเดล AI ยังไม่พร้อมใช้งาน")
+    }
 
-        const dstIndex = y * inputSize + x
+    const image = this.toWorkerImage(imageData)
 
-        // Normalize to [-1, 1] range (ImageNet normalization)
-        const r = (data[srcIndex] / 255.0 - 0.485) / 0.229
-        const g = (data[srcIndex + 1] / 255.0 - 0.456) / 0.224
-        const b = (data[srcIndex + 2] / 255.0 - 0.406) / 0.225
+    try {
+      const response = await this.send({ type: "detect", id: this.nextId++, image }, options, [image.data.buffer])
+      return response.type === "regions" ? response.regions : []
+    } catch (error) {
+      if (isAbortError(error)) throw error
+      console.error("Detection error:", error)
+      throw new Error("ไม่สามารถตรวจหาอาหารในรูปได้")
+    }
+  }
 
-        // CHW format (channels first)
-        tensorData[dstIndex] = r // R channel
-        tensorData[inputSize * inputSize + dstIndex] = g // G channel
-        tensorData[2 * inputSize * inputSize + dstIndex] = b // B channel
+  async dispose(): Promise<void> {
+    if (this.worker) {
+      try {
+        await this.send({ type: "dispose", id: this.nextId++ })
+      } finally {
+        this.failAll(abortError())
       }
     }
-
-    return new ort.Tensor("float32", tensorData, [1, 3, inputSize, inputSize])
+    this.isInitialized = false
   }
 
-  private processResults(predictions: Float32Array): ClassificationResult[] {
-    // Apply softmax
-    const softmaxPredictions = this.softmax(predictions)
+  get initialized(): boolean {
+    return this.isInitialized
+  }
 
-    // Get top-k results
-    const results: ClassificationResult[] = []
-    const indices = Array.from({ length: softmaxPredictions.length }, (_, i) => i)
+  get modelConfig(): ModelConfig {
+    return this.config
+  }
+}
 
-    // Sort by confidence
-    indices.sort((a, b) => softmaxPredictions[b] - softmaxPredictions[a])
+// Singleton instance
+let mlSession: MLSession | null = null
 
-    // Take top-k results above threshold
-    for (let i = 0; i < Math.min(this.config.topK, indices.length); i++) {
-      const index = indices[i]
-      const confidence = softmaxPredictions[index]
+/**
+ * A broken model (InvalidModelError) is recorded in the ML status so /process
+ * goes straight to manual mode next time, until the user retries in /settings.
+ * Other failures, such as being offline, are tried again on the next photo.
+ */
+export async function getMLSession(options: ClassifyOptions = {}): Promise<MLSession> {
+  try {
+    if (!mlSession) {
+      // The first run downloads the default model from the registry
+      const config = await ensureActiveModel({
+        signal: options.signal,
+        onProgress: (progress) => options.onProgress?.({ stage: "downloading", progress }),
+      })
 
-      if (confidence >= this.config.threshold) {
-        results.push({
-          label: this.labels[index] || `Unknown_${index}`,
-          confidence: Math.round(confidence * 100) / 100,
-          food_id: `th_${String(index + 1).padStart(3, "0")}`, // Map to food database
-        })
-      }
+      mlSession = mlSession ?? new MLSession(config)
     }
 
-    return results
+    await mlSession.initialize(options)
+    return mlSession
+  } catch (error) {
+    if (error instanceof InvalidModelError) {
+      await markMLUnavailable("model", error.message)
+    }
+    throw error
   }
+}
 
-  private softmax(logits: Float32Array): Float32Array {
-    const maxLogit = Math.max(...logits)
-    const expLogits = logits.map((x) => Math.exp(x - maxLogit))
-    const sumExp = expLogits.reduce((sum, x) => sum + x, 0)
-    return new Float32Array(expLogits.map((x) => x / sumExp))
-  }
+/**
+ * Classify a food photo off the main thread. Pass an AbortSignal to cancel
+ * (the promise rejects with an AbortError) and onProgress to follow the
+ * loading/preprocessing/inference stages. Classes without a food in the label
+ * map come back without a food_id, and results are re-ranked with the user's
+ * personal examples when the model exposes embeddings. The time taken is
+ * recorded per accuracy mode for /settings.
+ */
+export async function classifyFood(imageData: ImageData, options: PredictOptions = {}): Promise<FoodClassification> {
+  return await timed(options.mode ?? "fast", options, async () => {
+    return (await classifyRegions(imageData, [FULL_IMAGE], options))[0]
+  })
+}
 
-  async dispose(): Promise<void> {
-    if (this.session) {
-      await this.session.release()
-      this.session = null
+/**
+ * Classify several frames of the same shot and let them vote, so one blurry
+ * frame doesn't decide the result. The first frame is the photo that gets
+ * saved, so its embedding is the one kept for personalization.
+ */
+export async function classifyFrames(
+  frames: ImageData[],
+  options: ClassifyOptions = {},
+): Promise<FoodClassification> {
+  if (frames.length === 1) return await classifyFood(frames[0], { ...options, mode: "accurate" })
+
+  return await timed("accurate", options, async () => {
+    // Each frame is already a separate view, so frames aren't augmented on top
+    const classifications: FoodClassification[] = []
+    for (const frame of frames) {
+      classifications.push((await classifyRegions(frame, [FULL_IMAGE], options))[0])
     }
-    this.isInitialized = false
-  }
-
-  get initialized(): boolean {
-    return this.isInitialized
-  }
+    return voteClassifications(classifications)
+  })
 }
 
-// Singleton instance
-let mlSession: MLSession | null = null
+// Loads the model first, so only classification counts towards the mode's latency in settings
+async function timed<T>(mode: AccuracyMode, options: ClassifyOptions, classify: () => Promise<T>): Promise<T> {
+  await getMLSession(options)
+  const started = performance.now()
+  const result = await classify()
+  recordClassifierLatency(mode, performance.now() - started).catch((error) =>
+    console.error("Failed to record classifier latency:", error),
+  )
+  return result
+}
 
-export async function getMLSession(): Promise<MLSession> {
-  if (!mlSession) {
-    const config: ModelConfig = {
-      modelPath: "/models/food-classifier.onnx",
-      inputSize: 224, // Standard input size for MobileNet
-      topK: 5,
-      threshold: 0.1,
+/**
+ * Soft vote: each label scores its mean confidence across frames. Confident
+ * when most frames confidently agree on the winner, unsure when most frames
+ * picked something else.
+ */
+function voteClassifications(classifications: FoodClassification[]): FoodClassification {
+  const scores = new Map<string, ClassificationResult>()
+  for (const { results } of classifications) {
+    for (const result of results) {
+      const score = scores.get(result.label)
+      const confidence = (score?.confidence ?? 0) + result.confidence / classifications.length
+      scores.set(result.label, { ...result, confidence })
     }
+  }
 
-    mlSession = new MLSession(config)
-    await mlSession.initialize()
+  const topK = classifications[0].results.length
+  const results = [...scores.values()]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, topK)
+    .map((result) => ({ ...result, confidence: Math.round(result.confidence * 100) / 100 }))
+
+  const winner = results[0]?.label
+  const agreeing = classifications.filter((classification) => classification.results[0]?.label === winner)
+  const confidentVotes = agreeing.filter((classification) => classification.certainty === "confident").length
+  const majority = classifications.length / 2
+
+  let certainty: Certainty = "unsure"
+  if (confidentVotes > majority) {
+    certainty = "confident"
+  } else if (agreeing.length > majority) {
+    certainty = "possible"
   }
 
-  return mlSession
+  return { ...classifications[0], results, certainty }
 }
 
-export async function classifyFood(imageData: ImageData): Promise<ClassificationResult[]> {
-  const session = await getMLSession()
-  return await session.predict(imageData)
+// Like classifyFood, but one classification per region of the photo
+export async function classifyRegions(
+  imageData: ImageData,
+  regions: Region[],
+  options: PredictOptions = {},
+): Promise<FoodClassification[]> {
+  const session = await getMLSession(options)
+  const config = session.modelConfig
+  const model = { id: config.id, version: config.version }
+  const classifications = await session.predict(imageData, regions, options)
+
+  return await Promise.all(
+    classifications.map(async ({ results, certainty, embedding }) => {
+      const mapped = await Promise.all(
+        results.map(async (result) => ({ ...result, food_id: await resolveLabel(result.label, config) })),
+      )
+      const reranked = await rerankWithPersonalExamples({ results: mapped, certainty }, { model, embedding }, config)
+      return { ...reranked, embedding, model }
+    }),
+  )
+}
+
+// Whether the active model ships a detector; without one, regions are drawn by hand
+export async function hasRegionDetector(): Promise<boolean> {
+  return Boolean((await getActiveModelConfig())?.detector)
+}
+
+// Propose one region per dish, best first
+export async function detectFoodRegions(imageData: ImageData, options: ClassifyOptions = {}): Promise<DetectedRegion[]> {
+  const session = await getMLSession(options)
+  return await session.detect(imageData, options)
 }
 
 export async function disposeMLSession(): Promise<void> {
@@ -234,3 +386,23 @@ export async function disposeMLSession(): Promise<void> {
     mlSession = null
   }
 }
+
+/**
+ * Start over from /settings: drop the current session, re-check the browser and
+ * load (downloading if needed) the active model.
+ */
+export async function retryMLSetup(options: ClassifyOptions = {}): Promise<MLStatus> {
+  await disposeMLSession()
+
+  const issue = getBrowserSupportIssue()
+  if (issue) return await markMLUnavailable("browser", issue)
+
+  try {
+    await getMLSession(options)
+    return await markMLAvailable()
+  } catch (error) {
+    // Network failures leave the status as it was and are only reported
+    if (error instanceof InvalidModelError) return await markMLUnavailable("model", error.message)
+    throw error
+  }
+}
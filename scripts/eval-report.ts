@@ -0,0 +1,178 @@
+import type { Certainty } from "@/lib/postprocess"
+
+export interface LatencyStats {
+  mean: number
+  p50: number
+  p95: number
+}
+
+// Written as report.json by scripts/evaluate-model.ts and read back as a --baseline
+export interface EvaluationReport {
+  created_at: string
+  model: {
+    id: string
+    version: string
+    onnx: string
+    sha256: string
+    sha256_matches_manifest: boolean
+    temperature: number // from the manifest, used for every confidence below
+  }
+  dataset: { path: string; images: number; classes: number; skipped: string[] }
+  top1: number
+  top5: number
+  ece: number // expected calibration error of the top-1 confidence
+  suggested_temperature: number // minimizes NLL on this set; copy into the manifest's calibration block
+  certainty: Record<Certainty, { count: number; accuracy: number }>
+  latency_ms: { preprocess: LatencyStats; inference: LatencyStats }
+  per_class: { label: string; support: number; precision: number; recall: number }[]
+  confusion: { labels: string[]; matrix: number[][] } // rows are true classes, columns predictions
+  reliability: { bin: number; count: number; confidence: number; accuracy: number }[]
+  misclassified: { file: string; label: string; predicted: string; confidence: number }[]
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"]/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[char]!)
+}
+
+function percent(value: number) {
+  return `${(value * 100).toFixed(1)}%`
+}
+
+function delta(current: number, previous: number | undefined) {
+  if (previous === undefined) return ""
+  const change = (current - previous) * 100
+  const className = change < 0 ? "down" : "up"
+  return ` <span class="${className}">(${change >= 0 ? "+" : ""}${change.toFixed(1)})</span>`
+}
+
+function milliseconds({ mean, p50, p95 }: LatencyStats) {
+  return `${mean.toFixed(1)} / ${p50.toFixed(1)} / ${p95.toFixed(1)} ms`
+}
+
+function table(headers: string[], rows: string[][]) {
+  const head = headers.map((header) => `<th>${header}</th>`).join("")
+  const body = rows.map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join("")}</tr>`).join("\n")
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`
+}
+
+// Row-normalized so small classes are as readable as large ones
+function confusionTable({ labels, matrix }: EvaluationReport["confusion"]) {
+  const head = labels.map((label, index) => `<th title="${escapeHtml(label)}">${index + 1}</th>`).join("")
+  const body = matrix
+    .map((row, rowIndex) => {
+      const total = row.reduce((sum, count) => sum + count, 0) || 1
+      const cells = row
+        .map((count, columnIndex) => {
+          const shade = count / total
+          const hue = rowIndex === columnIndex ? 140 : 0
+          const style = count > 0 ? ` style="background: hsla(${hue}, 70%, 45%, ${shade.toFixed(2)})"` : ""
+          return `<td${style} title="${count}">${count || ""}</td>`
+        })
+        .join("")
+      return `<tr><th class="label">${rowIndex + 1}. ${escapeHtml(labels[rowIndex])}</th>${cells}</tr>`
+    })
+    .join("\n")
+  const rows = `<thead><tr><th></th>${head}</tr></thead><tbody>${body}</tbody>`
+  return `<div class="scroll"><table class="confusion">${rows}</table></div>`
+}
+
+// Self-contained page (no scripts or external assets) so it can be attached to a model upgrade
+export function renderHtmlReport(report: EvaluationReport, baseline: EvaluationReport | null): string {
+  const { model, dataset, latency_ms: latency } = report
+
+  const summary = table(
+    ["Metric", "Value"],
+    [
+      ["Top-1", percent(report.top1) + delta(report.top1, baseline?.top1)],
+      ["Top-5", percent(report.top5) + delta(report.top5, baseline?.top5)],
+      ["ECE", report.ece.toFixed(3)],
+      ["Manifest temperature", String(model.temperature)],
+      ["Suggested temperature", String(report.suggested_temperature)],
+      ["Preprocess (mean / p50 / p95)", milliseconds(latency.preprocess)],
+      ["Inference (mean / p50 / p95)", milliseconds(latency.inference)],
+    ],
+  )
+
+  const certainty = table(
+    ["Certainty", "Images", "Top-1 accuracy"],
+    (Object.entries(report.certainty) as [Certainty, { count: number; accuracy: number }][]).map(
+      ([level, { count, accuracy }]) => [level, String(count), count > 0 ? percent(accuracy) : "–"],
+    ),
+  )
+
+  const reliability = table(
+    ["Confidence bin", "Images", "Mean confidence", "Accuracy"],
+    report.reliability
+      .filter((bin) => bin.count > 0)
+      .map((bin) => [
+        `${bin.bin * 10}–${bin.bin * 10 + 10}%`,
+        String(bin.count),
+        percent(bin.confidence),
+        percent(bin.accuracy),
+      ]),
+  )
+
+  const perClass = table(
+    ["Class", "Images", "Precision", "Recall"],
+    [...report.per_class]
+      .sort((a, b) => a.recall - b.recall)
+      .map((row) => [escapeHtml(row.label), String(row.support), percent(row.precision), percent(row.recall)]),
+  )
+
+  const misclassified = table(
+    ["File", "Label", "Predicted", "Confidence"],
+    report.misclassified.map((row) => [
+      escapeHtml(row.file),
+      escapeHtml(row.label),
+      escapeHtml(row.predicted),
+      percent(row.confidence),
+    ]),
+  )
+
+  const comparedWith = baseline
+    ? `<br>Compared with ${escapeHtml(baseline.model.id)} v${escapeHtml(baseline.model.version)} (${escapeHtml(baseline.created_at)})`
+    : ""
+  const checksum = model.sha256_matches_manifest
+    ? "matches manifest"
+    : `<span class="down">differs from manifest</span>`
+
+  return `<!doctype html>
+<html lang="th">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(model.id)} v${escapeHtml(model.version)} evaluation</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; font-size: 0.875rem; }
+  th, td { border: 1px solid #ddd; padding: 0.25rem 0.5rem; text-align: left; }
+  .confusion td { text-align: center; min-width: 1.5rem; }
+  .confusion th.label { white-space: nowrap; }
+  .scroll { overflow-x: auto; }
+  .up { color: #15803d; }
+  .down { color: #b91c1c; }
+  .muted { color: #666; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(model.id)} v${escapeHtml(model.version)}</h1>
+<p class="muted">
+  ${escapeHtml(model.onnx)} (sha256 ${model.sha256.slice(0, 12)}…, ${checksum})<br>
+  ${dataset.images} images in ${dataset.classes} classes from ${escapeHtml(dataset.path)}, ${escapeHtml(report.created_at)}
+  ${comparedWith}
+</p>
+<h2>Summary</h2>
+${summary}
+<h2>Certainty</h2>
+${certainty}
+<h2>Reliability</h2>
+${reliability}
+<h2>Per class</h2>
+${perClass}
+<h2>Confusion matrix</h2>
+${confusionTable(report.confusion)}
+<h2>Most confident mistakes</h2>
+${misclassified}
+</body>
+</html>
+`
+}
@@ -0,0 +1,331 @@
+/**
+ * Offline classifier evaluation. Runs a model over a folder of labelled photos
+ * with the same preprocessing (lib/preprocess.ts) and postprocessing
+ * (lib/postprocess.ts) as the in-app worker, on onnxruntime's CPU backend, and
+ * writes accuracy, confusion, calibration and latency as JSON and HTML.
+ *
+ *   npm run eval:model -- --images ./eval-set [--model <id>] [--onnx candidate.onnx]
+ *                         [--labels labels.json] [--out eval-reports/run] [--baseline old/report.json]
+ *
+ * The image folder has one subfolder per class, named exactly like the label in
+ * the model's labels file (eval-set/ผัดไทย/001.jpg). With --baseline the run
+ * exits non-zero when top-1 or top-5 accuracy drops, so upgrades can be gated.
+ */
+import { createHash } from "node:crypto"
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { performance } from "node:perf_hooks"
+import { parseArgs } from "node:util"
+import * as ort from "onnxruntime-node"
+import sharp from "sharp"
+import { preprocessImage, type PreprocessConfig, type RGBAImage } from "@/lib/preprocess"
+import { postprocess, softmax, type Certainty } from "@/lib/postprocess"
+import { modelManifestSchema, type ModelEntry } from "@/lib/schemas"
+import { renderHtmlReport, type EvaluationReport, type LatencyStats } from "./eval-report"
+
+const PUBLIC_DIR = path.join(process.cwd(), "public")
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp", ".avif"])
+const RELIABILITY_BINS = 10
+// Accuracy may drop by this much against a baseline before the run fails
+const REGRESSION_TOLERANCE = 0.005
+const MAX_MISCLASSIFIED = 50
+
+interface LabelledImage {
+  file: string
+  label: string
+}
+
+interface Prediction extends LabelledImage {
+  logits: Float32Array
+  ranking: number[] // class indices, best first
+  confidence: number // calibrated top-1 probability
+  certainty: Certainty
+  preprocessMs: number
+  inferenceMs: number
+}
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(2)
+}
+
+// Manifest URLs are site paths served from public/
+function publicPath(url: string) {
+  return path.join(PUBLIC_DIR, url.replace(/^\//, ""))
+}
+
+async function loadEntry(manifestPath: string, modelId?: string): Promise<ModelEntry> {
+  const manifest = modelManifestSchema.parse(JSON.parse(await readFile(manifestPath, "utf8")))
+  const id = modelId ?? manifest.default_model ?? manifest.models[0]?.id ?? fail(`${manifestPath} lists no models`)
+  return manifest.models.find((model) => model.id === id) ?? fail(`Model ${id} is not in ${manifestPath}`)
+}
+
+async function loadLabels(labelsPath: string): Promise<string[]> {
+  const { labels } = JSON.parse(await readFile(labelsPath, "utf8"))
+  if (!Array.isArray(labels) || !labels.every((label) => typeof label === "string")) {
+    fail(`Invalid labels file: ${labelsPath}`)
+  }
+  return labels
+}
+
+async function listImages(root: string, labels: string[]): Promise<{ images: LabelledImage[]; skipped: string[] }> {
+  const known = new Set(labels)
+  const images: LabelledImage[] = []
+  const skipped: string[] = []
+
+  for (const folder of await readdir(root, { withFileTypes: true })) {
+    if (!folder.isDirectory()) continue
+    if (!known.has(folder.name)) {
+      skipped.push(folder.name)
+      continue
+    }
+
+    for (const file of (await readdir(path.join(root, folder.name))).sort()) {
+      if (IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase())) {
+        images.push({ file: path.join(folder.name, file), label: folder.name })
+      }
+    }
+  }
+  return { images, skipped }
+}
+
+// Decoded upright (EXIF applied) to RGBA, matching what the app reads from a canvas
+async function decodeImage(file: string): Promise<RGBAImage> {
+  const { data, info } = await sharp(file).rotate().ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+  const pixels = new Uint8ClampedArray(data.buffer, data.byteOffset, data.length)
+  return { data: pixels, width: info.width, height: info.height }
+}
+
+function latencyStats(values: number[]): LatencyStats {
+  const sorted = [...values].sort((a, b) => a - b)
+  const at = (fraction: number) => sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))] ?? 0
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / (sorted.length || 1)
+  return { mean, p50: at(0.5), p95: at(0.95) }
+}
+
+// Mean negative log-likelihood of the true class, the quantity temperature scaling minimizes
+function negativeLogLikelihood(predictions: Prediction[], labelIndex: Map<string, number>, temperature: number) {
+  let total = 0
+  for (const prediction of predictions) {
+    const probabilities = softmax(prediction.logits, temperature)
+    total -= Math.log(Math.max(probabilities[labelIndex.get(prediction.label)!], 1e-12))
+  }
+  return total / predictions.length
+}
+
+function fitTemperature(predictions: Prediction[], labelIndex: Map<string, number>): number {
+  let best = { temperature: 1, nll: Infinity }
+  for (let temperature = 0.5; temperature <= 5.0001; temperature += 0.05) {
+    const nll = negativeLogLikelihood(predictions, labelIndex, temperature)
+    if (nll < best.nll) best = { temperature: Math.round(temperature * 100) / 100, nll }
+  }
+  return best.temperature
+}
+
+function buildReport(
+  entry: ModelEntry,
+  onnx: { path: string; sha256: string },
+  dataset: { path: string; skipped: string[] },
+  labels: string[],
+  predictions: Prediction[],
+): EvaluationReport {
+  const labelIndex = new Map(labels.map((label, index) => [label, index]))
+  const isCorrect = (prediction: Prediction) => labels[prediction.ranking[0]] === prediction.label
+
+  // Confusion over every class that was either present or predicted, in labels-file order
+  const used = new Set(predictions.flatMap((prediction) => [prediction.label, labels[prediction.ranking[0]]]))
+  const matrixLabels = labels.filter((label) => used.has(label))
+  const matrixIndex = new Map(matrixLabels.map((label, index) => [label, index]))
+  const matrix = matrixLabels.map(() => matrixLabels.map(() => 0))
+  for (const prediction of predictions) {
+    matrix[matrixIndex.get(prediction.label)!][matrixIndex.get(labels[prediction.ranking[0]])!]++
+  }
+
+  const perClass = matrixLabels
+    .map((label, index) => {
+      const support = matrix[index].reduce((sum, count) => sum + count, 0)
+      const predicted = matrix.reduce((sum, row) => sum + row[index], 0)
+      const correct = matrix[index][index]
+      return {
+        label,
+        support,
+        precision: predicted > 0 ? correct / predicted : 0,
+        recall: support > 0 ? correct / support : 0,
+      }
+    })
+    .filter((row) => row.support > 0)
+
+  const reliability = Array.from({ length: RELIABILITY_BINS }, (_, bin) => {
+    const inBin = predictions.filter(
+      (prediction) => Math.min(RELIABILITY_BINS - 1, Math.floor(prediction.confidence * RELIABILITY_BINS)) === bin,
+    )
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1)
+    return {
+      bin,
+      count: inBin.length,
+      confidence: mean(inBin.map((prediction) => prediction.confidence)),
+      accuracy: mean(inBin.map((prediction) => (isCorrect(prediction) ? 1 : 0))),
+    }
+  })
+  const ece = reliability.reduce(
+    (sum, bin) => sum + (bin.count / predictions.length) * Math.abs(bin.accuracy - bin.confidence),
+    0,
+  )
+
+  const certainty = Object.fromEntries(
+    (["confident", "possible", "unsure"] as Certainty[]).map((level) => {
+      const group = predictions.filter((prediction) => prediction.certainty === level)
+      const correct = group.filter(isCorrect).length
+      return [level, { count: group.length, accuracy: group.length > 0 ? correct / group.length : 0 }]
+    }),
+  ) as EvaluationReport["certainty"]
+
+  const misclassified = predictions
+    .filter((prediction) => !isCorrect(prediction))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_MISCLASSIFIED)
+    .map((prediction) => ({
+      file: prediction.file,
+      label: prediction.label,
+      predicted: labels[prediction.ranking[0]],
+      confidence: prediction.confidence,
+    }))
+
+  return {
+    created_at: new Date().toISOString(),
+    model: {
+      id: entry.id,
+      version: entry.version,
+      onnx: onnx.path,
+      sha256: onnx.sha256,
+      sha256_matches_manifest: onnx.sha256 === entry.sha256,
+      temperature: entry.calibration.temperature,
+    },
+    dataset: { path: dataset.path, images: predictions.length, classes: perClass.length, skipped: dataset.skipped },
+    top1: predictions.filter(isCorrect).length / predictions.length,
+    top5:
+      predictions.filter((prediction) => prediction.ranking.slice(0, 5).includes(labelIndex.get(prediction.label)!))
+        .length / predictions.length,
+    ece,
+    suggested_temperature: fitTemperature(predictions, labelIndex),
+    certainty,
+    latency_ms: {
+      preprocess: latencyStats(predictions.map((prediction) => prediction.preprocessMs)),
+      inference: latencyStats(predictions.map((prediction) => prediction.inferenceMs)),
+    },
+    per_class: perClass,
+    confusion: { labels: matrixLabels, matrix },
+    reliability,
+    misclassified,
+  }
+}
+
+// Regressions against an earlier report, as messages; empty when the candidate is at least as good
+function compareWithBaseline(report: EvaluationReport, baseline: EvaluationReport): string[] {
+  const regressions: string[] = []
+  for (const metric of ["top1", "top5"] as const) {
+    if (report[metric] < baseline[metric] - REGRESSION_TOLERANCE) {
+      regressions.push(`${metric} ${(baseline[metric] * 100).toFixed(1)}% -> ${(report[metric] * 100).toFixed(1)}%`)
+    }
+  }
+  return regressions
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      images: { type: "string" },
+      manifest: { type: "string", default: path.join(PUBLIC_DIR, "models", "manifest.json") },
+      model: { type: "string" },
+      onnx: { type: "string" },
+      labels: { type: "string" },
+      out: { type: "string" },
+      baseline: { type: "string" },
+    },
+  })
+  if (!values.images) fail("Usage: npm run eval:model -- --images <folder> [--model <id>] [--onnx <file>]")
+
+  const entry = await loadEntry(values.manifest, values.model)
+  const onnxPath = values.onnx ?? publicPath(entry.url)
+  const labels = await loadLabels(values.labels ?? publicPath(entry.labels))
+  const { images, skipped } = await listImages(values.images, labels)
+  if (images.length === 0) fail(`No labelled images found in ${values.images}`)
+  if (skipped.length > 0) console.warn(`Skipping folders that aren't model labels: ${skipped.join(", ")}`)
+
+  const modelBytes = await readFile(onnxPath)
+  const sha256 = createHash("sha256").update(modelBytes).digest("hex")
+  const session = await ort.InferenceSession.create(modelBytes, { executionProviders: ["cpu"] })
+  const logitsOutput = session.outputNames.find((name) => name !== entry.embedding_output) ?? session.outputNames[0]
+
+  // Same config the app builds in toModelConfig
+  const preprocessing: PreprocessConfig = { ...entry.preprocessing, ...entry.normalization }
+  const inputSize = preprocessing.layout === "NCHW" ? entry.input_shape[2] : entry.input_shape[1]
+  const ranking = { topK: labels.length, threshold: 0, calibration: entry.calibration }
+
+  console.log(`Evaluating ${entry.id} v${entry.version} on ${images.length} images...`)
+  const predictions: Prediction[] = []
+  for (const [index, image] of images.entries()) {
+    const pixels = await decodeImage(path.join(values.images, image.file))
+
+    const preprocessStart = performance.now()
+    const { data, dims } = preprocessImage(pixels, inputSize, preprocessing)
+    const inferenceStart = performance.now()
+    const outputs = await session.run({ [session.inputNames[0]]: new ort.Tensor("float32", data, dims) }, [
+      logitsOutput,
+    ])
+    const inferenceEnd = performance.now()
+
+    const logits = new Float32Array(outputs[logitsOutput].data as Float32Array)
+    if (logits.length !== labels.length) {
+      fail(`Model has ${logits.length} classes but its labels file has ${labels.length}`)
+    }
+    const { results, certainty } = postprocess(logits, labels, ranking)
+    // Unrounded, since postprocess rounds confidences for display
+    const probabilities = softmax(logits, entry.calibration.temperature)
+    predictions.push({
+      ...image,
+      logits,
+      ranking: results.map((result) => result.index),
+      confidence: probabilities[results[0].index],
+      certainty,
+      preprocessMs: inferenceStart - preprocessStart,
+      inferenceMs: inferenceEnd - inferenceStart,
+    })
+
+    if ((index + 1) % 50 === 0) console.log(`  ${index + 1}/${images.length}`)
+  }
+
+  const report = buildReport(
+    entry,
+    { path: onnxPath, sha256 },
+    { path: values.images, skipped },
+    labels,
+    predictions,
+  )
+  const baseline: EvaluationReport | null = values.baseline
+    ? JSON.parse(await readFile(values.baseline, "utf8"))
+    : null
+  const regressions = baseline ? compareWithBaseline(report, baseline) : []
+
+  const outDir = values.out ?? path.join("eval-reports", `${entry.id}-${entry.version}-${Date.now()}`)
+  await mkdir(outDir, { recursive: true })
+  await writeFile(path.join(outDir, "report.json"), JSON.stringify(report, null, 2))
+  await writeFile(path.join(outDir, "report.html"), renderHtmlReport(report, baseline))
+
+  console.log(
+    `top-1 ${(report.top1 * 100).toFixed(1)}%, top-5 ${(report.top5 * 100).toFixed(1)}%, ` +
+      `ECE ${report.ece.toFixed(3)} (suggested temperature ${report.suggested_temperature}), ` +
+      `inference p50 ${report.latency_ms.inference.p50.toFixed(1)} ms`,
+  )
+  console.log(`Report written to ${outDir}`)
+
+  if (regressions.length > 0) {
+    console.error(`Regressed against ${values.baseline}: ${regressions.join(", ")}`)
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(2)
+})